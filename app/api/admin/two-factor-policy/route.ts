@@ -0,0 +1,111 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { TWO_FACTOR_ROLES, clearTwoFactorPolicyCache } from '@/lib/mfa';
+
+/**
+ * @swagger
+ * /api/admin/two-factor-policy:
+ *   get:
+ *     summary: List which roles must use two-factor authentication
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor requirement per role
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Require or stop requiring two-factor authentication for a role
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *               - requireTwoFactor
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [upholsterer, admin]
+ *               requireTwoFactor:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *       400:
+ *         description: Invalid role
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth(async () => {
+  try {
+    const policies = await prisma.roleSecurityPolicies.findMany({
+      where: { role: { in: TWO_FACTOR_ROLES } }
+    });
+
+    return NextResponse.json(
+      TWO_FACTOR_ROLES.map((role) => ({
+        role,
+        requireTwoFactor: policies.find((policy) => policy.role === role)?.requireTwoFactor ?? false
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching two-factor policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
+
+export const PUT = withAuth(async (request) => {
+  try {
+    const { role, requireTwoFactor } = await request.json();
+
+    if (!TWO_FACTOR_ROLES.includes(role) || typeof requireTwoFactor !== 'boolean') {
+      return NextResponse.json(
+        { error: `Role must be one of ${TWO_FACTOR_ROLES.join(', ')} and requireTwoFactor a boolean` },
+        { status: 400 }
+      );
+    }
+
+    const policy = await prisma.roleSecurityPolicies.upsert({
+      where: { role },
+      create: { role, requireTwoFactor },
+      update: { requireTwoFactor, updatedAt: new Date() }
+    });
+
+    clearTwoFactorPolicyCache();
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    console.error('Error updating two-factor policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin'],
+  // An admin must be able to relax the policy even before enrolling themselves
+  allowWithoutTwoFactor: true
+});
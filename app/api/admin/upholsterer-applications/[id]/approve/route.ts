@@ -0,0 +1,109 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { sendEmail, generateApplicationDecisionEmail } from '@/lib/email';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/admin/upholsterer-applications/{id}/approve:
+ *   post:
+ *     summary: Approve an application and grant the upholsterer role
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Application approved
+ *       400:
+ *         description: Application already reviewed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application was reviewed concurrently
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const application = await prisma.upholstererApplications.findUnique({
+      where: { Id: params.id },
+      include: { user: { select: { Id: true, email: true, role: true } } }
+    });
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    if (application.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Application has already been reviewed' },
+        { status: 400 }
+      );
+    }
+
+    // Conditional on the application still being pending, so concurrent reviews can't both go through
+    const updatedApplication = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.upholstererApplications.updateMany({
+        where: { Id: application.Id, status: 'pending' },
+        data: {
+          status: 'approved',
+          reviewedById: principal.userId,
+          reviewedAt: new Date(),
+          updatedAt: new Date()
+        }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      // Never demote an admin who happened to apply
+      if (application.user.role === 'client') {
+        await tx.users.update({
+          where: { Id: application.userId },
+          data: { role: 'upholsterer', updatedAt: new Date() }
+        });
+      }
+
+      return tx.upholstererApplications.findUnique({ where: { Id: application.Id } });
+    });
+
+    if (!updatedApplication) {
+      return NextResponse.json(
+        { error: 'Application has already been reviewed' },
+        { status: 409 }
+      );
+    }
+
+    const emailSent = await sendEmail(generateApplicationDecisionEmail(application.user.email, true));
+    if (!emailSent) {
+      console.error('Failed to send application approval email to:', application.user.email);
+    }
+
+    return NextResponse.json(updatedApplication);
+  } catch (error) {
+    console.error('Error approving application:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
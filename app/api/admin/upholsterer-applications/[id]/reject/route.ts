@@ -0,0 +1,107 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { sendEmail, generateApplicationDecisionEmail } from '@/lib/email';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/admin/upholsterer-applications/{id}/reject:
+ *   post:
+ *     summary: Reject an upholsterer application
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Shared with the applicant in the notification email
+ *     responses:
+ *       200:
+ *         description: Application rejected
+ *       400:
+ *         description: Application already reviewed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application was reviewed concurrently
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const { reason } = await request.json().catch(() => ({}));
+
+    const application = await prisma.upholstererApplications.findUnique({
+      where: { Id: params.id },
+      include: { user: { select: { email: true } } }
+    });
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    if (application.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Application has already been reviewed' },
+        { status: 400 }
+      );
+    }
+
+    // Conditional on the application still being pending, so concurrent reviews can't both go through
+    const { count } = await prisma.upholstererApplications.updateMany({
+      where: { Id: application.Id, status: 'pending' },
+      data: {
+        status: 'rejected',
+        rejectionReason: reason || null,
+        reviewedById: principal.userId,
+        reviewedAt: new Date(),
+        updatedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Application has already been reviewed' },
+        { status: 409 }
+      );
+    }
+
+    const updatedApplication = await prisma.upholstererApplications.findUnique({ where: { Id: application.Id } });
+
+    const emailSent = await sendEmail(generateApplicationDecisionEmail(application.user.email, false, reason));
+    if (!emailSent) {
+      console.error('Failed to send application rejection email to:', application.user.email);
+    }
+
+    return NextResponse.json(updatedApplication);
+  } catch (error) {
+    console.error('Error rejecting application:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+
+/**
+ * @swagger
+ * /api/admin/upholsterer-applications:
+ *   get:
+ *     summary: List upholsterer applications for review
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         description: Filter by application status
+ *     responses:
+ *       200:
+ *         description: List of applications
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const where: Prisma.UpholstererApplicationsWhereInput = {};
+    if (status) where.status = status;
+
+    const applications = await prisma.upholstererApplications.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            Id: true,
+            fullName: true,
+            email: true,
+            phoneNumber: true
+          }
+        },
+        reviewedBy: {
+          select: {
+            Id: true,
+            fullName: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
+    return NextResponse.json(applications);
+  } catch (error) {
+    console.error('Error fetching applications:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
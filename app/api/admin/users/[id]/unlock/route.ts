@@ -0,0 +1,61 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { accountLoginKey, resetThrottle } from '@/lib/throttle';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/unlock:
+ *   post:
+ *     summary: Clear failed-login lockout for a user
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const user = await prisma.users.findUnique({
+      where: { Id: params.id },
+      select: { email: true }
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await resetThrottle(accountLoginKey(user.email));
+
+    return NextResponse.json({ message: 'Account unlocked successfully' });
+  } catch (error) {
+    console.error('Error unlocking account:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
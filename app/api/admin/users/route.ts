@@ -0,0 +1,112 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { EMAIL_REGEX, issuePasswordResetToken, unusablePassword } from '@/lib/accounts';
+import { sendEmail, generateAdminInviteEmail } from '@/lib/email';
+
+const INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   post:
+ *     summary: Create another administrator account
+ *     description: The new admin receives an email link to choose a password.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - fullName
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               fullName:
+ *                 type: string
+ *               phoneNumber:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Admin created and invited
+ *       400:
+ *         description: Invalid input or email already exists
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request) => {
+  try {
+    const { email, fullName, phoneNumber } = await request.json();
+
+    if (!email || !fullName) {
+      return NextResponse.json(
+        { error: 'Email and full name are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!EMAIL_REGEX.test(email)) {
+      return NextResponse.json(
+        { error: 'Invalid email format' },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await prisma.users.findUnique({
+      where: { email },
+      select: { Id: true }
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'Email already registered' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.users.create({
+      data: {
+        email,
+        fullName,
+        phoneNumber,
+        ...(await unusablePassword()),
+        role: 'admin',
+        // The invite link proves ownership of the address
+        emailConfirmed: true
+      },
+      select: {
+        Id: true,
+        email: true,
+        fullName: true,
+        role: true
+      }
+    });
+
+    const inviteToken = await issuePasswordResetToken(user.Id, INVITE_TTL_MS);
+    const emailSent = await sendEmail(generateAdminInviteEmail(email, inviteToken));
+    if (!emailSent) {
+      console.error('Failed to send admin invite email to:', email);
+    }
+
+    return NextResponse.json(user, { status: 201 });
+  } catch (error) {
+    console.error('Error creating admin:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
@@ -0,0 +1,99 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { TWO_FACTOR_ROLES, replaceRecoveryCodes } from '@/lib/mfa';
+import { verifyTotp } from '@/lib/totp';
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm TOTP enrollment with a code from the authenticator app
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled; recovery codes are returned once
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: No pending enrollment or invalid code
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Code is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: { totpSecret: true, totpEnabled: true }
+    });
+
+    if (!user?.totpSecret || user.totpEnabled) {
+      return NextResponse.json(
+        { error: 'No pending two-factor enrollment' },
+        { status: 400 }
+      );
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) {
+      return NextResponse.json(
+        { error: 'Invalid code' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.users.update({
+      where: { Id: principal.userId },
+      data: { totpEnabled: true, totpLastUsedStep: step }
+    });
+
+    const recoveryCodes = await replaceRecoveryCodes(principal.userId);
+
+    return NextResponse.json({
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe.',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Two-factor confirmation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: TWO_FACTOR_ROLES,
+  allowWithoutTwoFactor: true,
+  forbiddenMessage: 'Two-factor authentication is not available for this role'
+});
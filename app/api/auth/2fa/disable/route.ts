@@ -0,0 +1,84 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { isTwoFactorRequired, verifySecondFactor } from '@/lib/mfa';
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid code or 2FA not enabled
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Two-factor authentication is required for this role
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    const { code, recoveryCode } = await request.json();
+
+    if (await isTwoFactorRequired(principal.role)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for your role' },
+        { status: 403 }
+      );
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: { Id: true, totpEnabled: true, totpSecret: true, totpLastUsedStep: true }
+    });
+
+    if (!user?.totpEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      return NextResponse.json(
+        { error: 'Invalid two-factor code' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.userRecoveryCodes.deleteMany({ where: { userId: user.Id } }),
+      prisma.users.update({
+        where: { Id: user.Id },
+        data: { totpEnabled: false, totpSecret: null, totpLastUsedStep: null }
+      })
+    ]);
+
+    return NextResponse.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
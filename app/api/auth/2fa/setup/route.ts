@@ -0,0 +1,81 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { TWO_FACTOR_ROLES } from '@/lib/mfa';
+import { generateTotpSecret, buildOtpAuthUri } from '@/lib/totp';
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start TOTP enrollment and get a new secret
+ *     description: The secret stays inactive until confirmed through /api/auth/2fa/confirm.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                 otpauthUri:
+ *                   type: string
+ *       400:
+ *         description: Two-factor authentication already enabled
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Role cannot enroll in two-factor authentication
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: { email: true, totpEnabled: true }
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.totpEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.users.update({
+      where: { Id: principal.userId },
+      data: { totpSecret: secret, totpLastUsedStep: null }
+    });
+
+    return NextResponse.json({
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email)
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: TWO_FACTOR_ROLES,
+  allowWithoutTwoFactor: true,
+  forbiddenMessage: 'Two-factor authentication is not available for this role'
+});
@@ -0,0 +1,141 @@
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyPurposeToken } from '@/lib/auth';
+import { createSession } from '@/lib/session';
+import { recordFailedLogin, recordSuccessfulLogin } from '@/lib/loginHistory';
+import { LOGIN_CHALLENGE_PURPOSE, verifySecondFactor } from '@/lib/mfa';
+import {
+  ACCOUNT_LOGIN_POLICY,
+  accountLoginKey,
+  reserveAttempt,
+  resetThrottle
+} from '@/lib/throttle';
+
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Complete a login with a TOTP code or a recovery code
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Returned by /api/auth/login when a second factor is required
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code from the authenticator app
+ *               recoveryCode:
+ *                 type: string
+ *                 description: One-time recovery code, used instead of code
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         description: Missing challenge token or code
+ *       401:
+ *         description: Invalid or expired challenge, or wrong code
+ *       423:
+ *         description: Account temporarily locked after repeated failures
+ *       500:
+ *         description: Server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { challengeToken, code, recoveryCode } = await request.json();
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return NextResponse.json(
+        { error: 'Challenge token and a code or recovery code are required' },
+        { status: 400 }
+      );
+    }
+
+    const userId = verifyPurposeToken(challengeToken, LOGIN_CHALLENGE_PURPOSE);
+    const user = userId
+      ? await prisma.users.findUnique({
+          where: { Id: userId },
+          select: {
+            Id: true,
+            email: true,
+            fullName: true,
+            role: true,
+            totpEnabled: true,
+            totpSecret: true,
+            totpLastUsedStep: true
+          }
+        })
+      : null;
+
+    if (!user || !user.totpEnabled) {
+      return NextResponse.json(
+        { error: 'Invalid or expired challenge token' },
+        { status: 401 }
+      );
+    }
+
+    // Wrong codes count against the same lockout as wrong passwords, reserved up front like them
+    const accountKey = accountLoginKey(user.email);
+    const attempt = await reserveAttempt(accountKey, ACCOUNT_LOGIN_POLICY);
+    if (!attempt.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many failed login attempts. Please try again later.',
+          retryAfter: Math.ceil(attempt.retryAfterMs / 1000)
+        },
+        {
+          status: attempt.locked ? 423 : 429,
+          headers: { 'Retry-After': Math.ceil(attempt.retryAfterMs / 1000).toString() }
+        }
+      );
+    }
+
+    const verified = await verifySecondFactor(user, { code, recoveryCode });
+    if (!verified) {
+      await recordFailedLogin(user.Id, 'Invalid two-factor code', request);
+      return NextResponse.json(
+        { error: 'Invalid two-factor code' },
+        { status: 401 }
+      );
+    }
+
+    await resetThrottle(accountKey);
+
+    let tokens;
+    try {
+      tokens = await createSession(user.Id, user.role, request);
+    } catch (sessionError) {
+      console.error('Session creation error:', sessionError);
+      return NextResponse.json(
+        { error: 'Session creation error' },
+        { status: 500 }
+      );
+    }
+
+    await recordSuccessfulLogin(user.Id, request);
+
+    return NextResponse.json({
+      ...tokens,
+      user: {
+        Id: user.Id,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,22 @@
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import jwt from 'jsonwebtoken';
+import { hashPassword, verifyPassword, needsRehash } from '@/lib/password';
+import { createSession } from '@/lib/session';
+import { getClientIp } from '@/lib/request';
+import { recordFailedLogin, recordSuccessfulLogin } from '@/lib/loginHistory';
+import { LOGIN_CHALLENGE_PURPOSE, LOGIN_CHALLENGE_TTL_SECONDS } from '@/lib/mfa';
+import { generatePurposeToken } from '@/lib/auth';
+import { sendEmail, generateAccountLockedEmail } from '@/lib/email';
+import {
+  ACCOUNT_LOGIN_POLICY,
+  IP_LOGIN_POLICY,
+  accountLoginKey,
+  ipLoginKey,
+  releaseAttempt,
+  reserveAttempt,
+  resetThrottle,
+  UNLOCK_TOKEN_PURPOSE
+} from '@/lib/throttle';
 
 /**
  * @swagger
@@ -28,7 +43,7 @@ import jwt from 'jsonwebtoken';
  *                 format: password
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a 2FA challenge when the account has TOTP enabled
  *         content:
  *           application/json:
  *             schema:
@@ -36,10 +51,27 @@ import jwt from 'jsonwebtoken';
  *               properties:
  *                 token:
  *                   type: string
+ *                   description: Short-lived access token
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Single-use token for /api/auth/refresh
+ *                 expiresIn:
+ *                   type: integer
+ *                   description: Access token lifetime in seconds
  *                 user:
  *                   type: object
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                   description: Present instead of tokens when a second factor is needed
+ *                 challengeToken:
+ *                   type: string
+ *                   description: Pass to /api/auth/login/2fa together with a TOTP or recovery code
  *       401:
  *         description: Invalid credentials
+ *       423:
+ *         description: Account temporarily locked after repeated failures
+ *       429:
+ *         description: Too many failed attempts; retry after the Retry-After delay
  *       500:
  *         description: Server error
  */
@@ -76,6 +108,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const ipAddress = getClientIp(request);
+    const accountKey = accountLoginKey(body.email);
+    const ipKey = ipLoginKey(ipAddress);
+
+    // Attempts are counted as failures before the password is checked and given back when they succeed,
+    // so parallel guesses can't all get past the lockout threshold
+    const ipAttempt = await reserveAttempt(ipKey, IP_LOGIN_POLICY);
+    const attempt = ipAttempt.allowed ? await reserveAttempt(accountKey, ACCOUNT_LOGIN_POLICY) : ipAttempt;
+
+    if (!attempt.allowed) {
+      if (ipAttempt.allowed) {
+        await releaseAttempt(ipKey);
+      }
+      return NextResponse.json(
+        {
+          error: attempt.locked
+            ? 'Account temporarily locked due to failed login attempts. Check your email to unlock it.'
+            : 'Too many failed login attempts. Please try again later.',
+          retryAfter: Math.ceil(attempt.retryAfterMs / 1000)
+        },
+        {
+          status: attempt.locked ? 423 : 429,
+          headers: { 'Retry-After': Math.ceil(attempt.retryAfterMs / 1000).toString() }
+        }
+      );
+    }
+
     const user = await prisma.users.findUnique({
       where: { email: body.email },
       select: {
@@ -85,7 +144,8 @@ export async function POST(request: NextRequest) {
         passwordHash: true,
         passwordSalt: true,
         role: true,
-        emailConfirmed: true
+        emailConfirmed: true,
+        totpEnabled: true
       }
     });
 
@@ -99,97 +159,93 @@ export async function POST(request: NextRequest) {
     }
 
     if (!user.emailConfirmed) {
+      await recordFailedLogin(user.Id, 'Email not confirmed', request);
       return NextResponse.json(
-        { error: 'Email not confirmed' },
+        {
+          error: 'Email not confirmed',
+          code: 'EMAIL_NOT_CONFIRMED',
+          resendUrl: '/api/auth/resend-verification'
+        },
         { status: 401 }
       );
     }
 
-    // Hash the provided password with the stored salt
-    let hashedPassword;
+    let passwordValid;
     try {
-      hashedPassword = crypto
-        .pbkdf2Sync(body.password, user.passwordSalt, 1000, 64, 'sha512')
-        .toString('hex');
-      console.log('Password hashing successful');
+      passwordValid = await verifyPassword(body.password, user.passwordHash, user.passwordSalt);
     } catch (hashError) {
-      console.error('Password hashing error:', hashError);
+      console.error('Password verification error:', hashError);
       return NextResponse.json(
         { error: 'Password verification error' },
         { status: 500 }
       );
     }
 
-    console.log('Password verification:', hashedPassword === user.passwordHash ? 'success' : 'failed');
+    console.log('Password verification:', passwordValid ? 'success' : 'failed');
+
+    if (!passwordValid) {
+      const { lockedUntil } = attempt;
+      await recordFailedLogin(user.Id, lockedUntil ? 'Invalid password; account locked' : 'Invalid password', request);
+
+      if (lockedUntil) {
+        const unlockToken = generatePurposeToken(
+          user.Id,
+          UNLOCK_TOKEN_PURPOSE,
+          ACCOUNT_LOGIN_POLICY.lockoutMs / 1000,
+          lockedUntil.toISOString()
+        );
+        const emailSent = await sendEmail(generateAccountLockedEmail(user.email, unlockToken));
+        if (!emailSent) {
+          console.error('Failed to send account locked email to:', user.email);
+        }
+      }
 
-    if (hashedPassword !== user.passwordHash) {
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
-    // Create JWT token
-    let token;
+    await Promise.all([resetThrottle(accountKey), releaseAttempt(ipKey)]);
+
+    // Transparently upgrade legacy or weaker hashes now that we have the plaintext
+    if (needsRehash(user.passwordHash)) {
+      try {
+        await prisma.users.update({
+          where: { Id: user.Id },
+          data: await hashPassword(body.password)
+        });
+        console.log('Password hash upgraded');
+      } catch (rehashError) {
+        console.error('Password rehash error:', rehashError);
+      }
+    }
+
+    if (user.totpEnabled) {
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challengeToken: generatePurposeToken(user.Id, LOGIN_CHALLENGE_PURPOSE, LOGIN_CHALLENGE_TTL_SECONDS),
+        expiresIn: LOGIN_CHALLENGE_TTL_SECONDS
+      });
+    }
+
+    // The session row is what keeps the tokens valid, so login fails without it
+    let tokens;
     try {
-      token = jwt.sign(
-        {
-          userId: user.Id,
-          email: user.email,
-          role: user.role
-        },
-        process.env.JWT_SECRET,
-        { expiresIn: '24h' }
-      );
-      console.log('JWT token generation successful');
-    } catch (jwtError) {
-      console.error('JWT token generation error:', jwtError);
+      tokens = await createSession(user.Id, user.role, request);
+      console.log('Session creation successful');
+    } catch (sessionError) {
+      console.error('Session creation error:', sessionError);
       return NextResponse.json(
-        { error: 'Token generation error' },
+        { error: 'Session creation error' },
         { status: 500 }
       );
     }
 
-    // Get IP address from headers
-    const forwardedFor = request.headers.get('x-forwarded-for');
-    const ipAddress = forwardedFor ? forwardedFor.split(',')[0] : request.headers.get('x-real-ip') || 'unknown';
-
-    try {
-      // Create session
-      await prisma.userSessions.create({
-        data: {
-          userId: user.Id,
-          token,
-          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-          ipAddress,
-          userAgent: request.headers.get('user-agent') || undefined
-        }
-      });
-
-      // Update last login date
-      await prisma.users.update({
-        where: { Id: user.Id },
-        data: { lastLoginDate: new Date() }
-      });
-
-      // Record successful login
-      await prisma.userLoginHistory.create({
-        data: {
-          userId: user.Id,
-          ipAddress,
-          userAgent: request.headers.get('user-agent') || undefined,
-          successful: true
-        }
-      });
-
-      console.log('Session and history records created successfully');
-    } catch (dbError) {
-      console.error('Session/history creation error:', dbError);
-      // Don't fail the login if session recording fails
-    }
+    await recordSuccessfulLogin(user.Id, request);
 
     return NextResponse.json({
-      token,
+      ...tokens,
       user: {
         Id: user.Id,
         email: user.email,
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { revokeAllSessions } from '@/lib/session';
+import { withAuth } from '@/lib/authorize';
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Revoke every session of the current user, including this one
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 revoked:
+ *                   type: integer
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    const revoked = await revokeAllSessions(principal.userId);
+
+    return NextResponse.json({ message: 'Logged out from all sessions', revoked });
+  } catch (error) {
+    console.error('Logout-all error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  allowWithoutTwoFactor: true
+});
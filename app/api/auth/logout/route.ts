@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { revokeSession } from '@/lib/session';
+import { withAuth } from '@/lib/authorize';
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Revoke the current session
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    await revokeSession(principal.sessionId, principal.userId);
+
+    return NextResponse.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  allowWithoutTwoFactor: true
+});
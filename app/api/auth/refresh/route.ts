@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rotateRefreshToken } from '@/lib/session';
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access and refresh token
+ *     description: Refresh tokens are single-use. Presenting a refresh token that was already used revokes the whole session.
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *                 expiresIn:
+ *                   type: integer
+ *       400:
+ *         description: Refresh token missing
+ *       401:
+ *         description: Invalid, expired or reused refresh token
+ *       500:
+ *         description: Server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { refreshToken } = await request.json();
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Refresh token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status === 'reused') {
+      console.warn('Refresh token reuse detected; session revoked');
+      return NextResponse.json(
+        { error: 'Refresh token has already been used. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    if (result.status === 'invalid') {
+      return NextResponse.json(
+        { error: 'Invalid or expired refresh token' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,18 @@
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
-import { sendEmail, generateConfirmationEmail } from '@/lib/email';
+import { sendEmail, generateConfirmationEmail, CONFIRMATION_TOKEN_TTL_HOURS } from '@/lib/email';
+import { hashPassword } from '@/lib/password';
+import { EMAIL_REGEX } from '@/lib/accounts';
 
 /**
  * @swagger
  * /api/auth/register:
  *   post:
- *     summary: Register a new user
+ *     summary: Register a new client account
+ *     description: >
+ *       Registration always creates a client. Upholsterers apply through /api/upholsterer-applications
+ *       and admins are created by existing admins.
  *     tags:
  *       - Authentication
  *     requestBody:
@@ -32,10 +37,6 @@ import { sendEmail, generateConfirmationEmail } from '@/lib/email';
  *                 type: string
  *               phoneNumber:
  *                 type: string
- *               role:
- *                 type: string
- *                 enum: [client, upholsterer, admin]
- *                 default: client
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -55,7 +56,7 @@ import { sendEmail, generateConfirmationEmail } from '@/lib/email';
  */
 export async function POST(request: NextRequest) {
   try {
-    const { email, password, fullName, phoneNumber, role = 'client' } = await request.json();
+    const { email, password, fullName, phoneNumber, role } = await request.json();
 
     // Validate required fields
     if (!email || !password || !fullName) {
@@ -65,9 +66,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Privileged roles are granted through review, never self-assigned
+    if (role !== undefined && role !== 'client') {
+      return NextResponse.json(
+        { error: 'Registration creates client accounts only. Apply via /api/upholsterer-applications to become an upholsterer.' },
+        { status: 400 }
+      );
+    }
+
     // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    if (!EMAIL_REGEX.test(email)) {
       return NextResponse.json(
         { error: 'Invalid email format' },
         { status: 400 }
@@ -95,14 +103,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate password salt and hash
-    const salt = crypto.randomBytes(16).toString('hex');
-    const hash = crypto
-      .pbkdf2Sync(password, salt, 1000, 64, 'sha512')
-      .toString('hex');
+    const { passwordHash, passwordSalt } = await hashPassword(password);
 
     // Generate confirmation token
     const confirmationToken = crypto.randomUUID();
+    const confirmationExpiry = new Date(Date.now() + CONFIRMATION_TOKEN_TTL_HOURS * 60 * 60 * 1000);
 
     // Create user
     const user = await prisma.users.create({
@@ -110,10 +115,11 @@ export async function POST(request: NextRequest) {
         email,
         fullName,
         phoneNumber,
-        passwordHash: hash,
-        passwordSalt: salt,
-        role,
+        passwordHash,
+        passwordSalt,
+        role: 'client',
         confirmationToken,
+        confirmationExpiry,
         emailConfirmed: false
       },
       select: {
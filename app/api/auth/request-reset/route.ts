@@ -1,7 +1,7 @@
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
-import { sendEmail } from '@/lib/email';
-import crypto from 'crypto';
+import { sendEmail, generatePasswordResetEmail } from '@/lib/email';
+import { issuePasswordResetToken } from '@/lib/accounts';
 
 /**
  * @swagger
@@ -24,9 +24,9 @@ import crypto from 'crypto';
  *                 format: email
  *     responses:
  *       200:
- *         description: Reset email sent successfully
- *       404:
- *         description: User not found
+ *         description: Reset email sent if the account exists; the response is identical either way
+ *       400:
+ *         description: Email missing
  *       500:
  *         description: Server error
  */
@@ -43,47 +43,23 @@ export async function POST(request: NextRequest) {
 
     // Find user
     const user = await prisma.users.findUnique({
-      where: { email }
+      where: { email },
+      select: { Id: true }
     });
 
-    if (!user) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
-      );
-    }
+    // Unknown emails get the same answer, so the endpoint can't be used to probe accounts
+    if (user) {
+      // Only the hash is stored; the raw token exists solely in the email
+      const resetToken = await issuePasswordResetToken(user.Id);
 
-    // Generate reset token and expiry
-    const resetToken = crypto.randomUUID();
-    const resetExpiry = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now
-
-    // Update user with reset token
-    await prisma.users.update({
-      where: { Id: user.Id },
-      data: {
-        resetPasswordToken: resetToken,
-        resetPasswordExpiry: resetExpiry
+      const emailSent = await sendEmail(generatePasswordResetEmail(email, resetToken));
+      if (!emailSent) {
+        console.error('Failed to send password reset email to:', email);
       }
-    });
-
-    // Send reset email
-    const resetLink = `${process.env.NEXT_PUBLIC_APP_URL}/reset-password?token=${resetToken}`;
-    const emailContent = `
-      <h2>Password Reset Request</h2>
-      <p>You have requested to reset your password. Click the link below to proceed:</p>
-      <p><a href="${resetLink}">Reset Password</a></p>
-      <p>This link will expire in 1 hour.</p>
-      <p>If you didn't request this, please ignore this email.</p>
-    `;
-
-    await sendEmail({
-      to: email,
-      subject: 'Password Reset Request',
-      html: emailContent
-    });
+    }
 
     return NextResponse.json({
-      message: 'Password reset instructions sent to your email'
+      message: 'If an account exists for this email, password reset instructions have been sent.'
     });
   } catch (error) {
     console.error('Error requesting password reset:', error);
@@ -0,0 +1,114 @@
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { sendEmail, generateConfirmationEmail, CONFIRMATION_TOKEN_TTL_HOURS } from '@/lib/email';
+import { getClientIp } from '@/lib/request';
+import {
+  RESEND_VERIFICATION_POLICY,
+  RESEND_VERIFICATION_IP_POLICY,
+  resendVerificationKey,
+  checkThrottle,
+  recordFailure
+} from '@/lib/throttle';
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send a new email confirmation link
+ *     description: Always answers with the same message so it cannot be used to discover registered emails.
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Verification email sent if the account exists and is unconfirmed
+ *       400:
+ *         description: Email missing
+ *       429:
+ *         description: Too many requests; retry after the Retry-After delay
+ *       500:
+ *         description: Server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const emailKey = resendVerificationKey(email);
+    const ipKey = resendVerificationKey(getClientIp(request));
+
+    const [emailStatus, ipStatus] = await Promise.all([
+      checkThrottle(emailKey, RESEND_VERIFICATION_POLICY),
+      checkThrottle(ipKey, RESEND_VERIFICATION_IP_POLICY)
+    ]);
+
+    const blocked = !emailStatus.allowed ? emailStatus : !ipStatus.allowed ? ipStatus : null;
+    if (blocked) {
+      return NextResponse.json(
+        {
+          error: 'Please wait before requesting another verification email.',
+          retryAfter: Math.ceil(blocked.retryAfterMs / 1000)
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': Math.ceil(blocked.retryAfterMs / 1000).toString() }
+        }
+      );
+    }
+
+    await Promise.all([
+      recordFailure(emailKey, RESEND_VERIFICATION_POLICY),
+      recordFailure(ipKey, RESEND_VERIFICATION_IP_POLICY)
+    ]);
+
+    const user = await prisma.users.findUnique({
+      where: { email },
+      select: { Id: true, emailConfirmed: true }
+    });
+
+    if (user && !user.emailConfirmed) {
+      const confirmationToken = crypto.randomUUID();
+
+      await prisma.users.update({
+        where: { Id: user.Id },
+        data: {
+          confirmationToken,
+          confirmationExpiry: new Date(Date.now() + CONFIRMATION_TOKEN_TTL_HOURS * 60 * 60 * 1000)
+        }
+      });
+
+      const emailSent = await sendEmail(generateConfirmationEmail(email, confirmationToken));
+      if (!emailSent) {
+        console.error('Failed to resend confirmation email to:', email);
+      }
+    }
+
+    return NextResponse.json({
+      message: 'If the account exists and is not yet confirmed, a new verification email has been sent.'
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
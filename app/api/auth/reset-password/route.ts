@@ -1,7 +1,9 @@
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { pbkdf2Sync } from 'crypto';
+import { hashPassword } from '@/lib/password';
+import { hashToken } from '@/lib/auth';
+import { revokeAllSessions } from '@/lib/session';
+import { sendEmail, generatePasswordChangedEmail } from '@/lib/email';
 
 /**
  * @swagger
@@ -27,11 +29,9 @@ import { pbkdf2Sync } from 'crypto';
  *                 minLength: 8
  *     responses:
  *       200:
- *         description: Password reset successful
+ *         description: Password reset successful; all existing sessions are revoked
  *       400:
  *         description: Invalid or expired token
- *       404:
- *         description: User not found
  *       500:
  *         description: Server error
  */
@@ -53,14 +53,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tokenHash = hashToken(token);
+
     // Find user with valid reset token
     const user = await prisma.users.findFirst({
       where: {
-        resetPasswordToken: token,
+        resetPasswordTokenHash: tokenHash,
         resetPasswordExpiry: {
           gt: new Date() // Token not expired
         }
-      }
+      },
+      select: { Id: true, email: true }
     });
 
     if (!user) {
@@ -70,22 +73,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate new password hash and salt
-    const salt = crypto.randomBytes(16).toString('hex');
-    const hash = pbkdf2Sync(newPassword, salt, 1000, 64, 'sha512').toString('hex');
+    const { passwordHash, passwordSalt } = await hashPassword(newPassword);
 
-    // Update user's password and clear reset token
-    await prisma.users.update({
-      where: { Id: user.Id },
+    // Update user's password and clear reset token. Matching on the hash again
+    // makes the token single-use even if two requests race.
+    const { count } = await prisma.users.updateMany({
+      where: { Id: user.Id, resetPasswordTokenHash: tokenHash },
       data: {
-        passwordHash: hash,
-        passwordSalt: salt,
-        resetPasswordToken: null,
+        passwordHash,
+        passwordSalt,
+        resetPasswordTokenHash: null,
         resetPasswordExpiry: null,
         updatedAt: new Date()
       }
     });
 
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset token' },
+        { status: 400 }
+      );
+    }
+
+    // Whoever held the old password must not keep a live session
+    await revokeAllSessions(user.Id);
+
     // Log the password reset
     await prisma.userLoginHistory.create({
       data: {
@@ -97,6 +109,11 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    const emailSent = await sendEmail(generatePasswordChangedEmail(user.email));
+    if (!emailSent) {
+      console.error('Failed to send password changed email to:', user.email);
+    }
+
     return NextResponse.json({
       message: 'Password has been reset successfully. You can now login with your new password.'
     });
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { revokeSession } from '@/lib/session';
+import { withAuth } from '@/lib/authorize';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke one of the current user's sessions
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Server error
+ */
+export const DELETE = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const { id } = params;
+
+    // Scoped to the caller, so another user's session ids simply don't match
+    const revoked = await revokeSession(id, principal.userId);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  allowWithoutTwoFactor: true
+});
@@ -0,0 +1,86 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { revokeAllSessions } from '@/lib/session';
+import { withAuth } from '@/lib/authorize';
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions of the current user
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of active sessions
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Revoke every session of the current user except this one
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth(async (request, { principal }) => {
+  try {
+    const sessions = await prisma.userSessions.findMany({
+      where: {
+        userId: principal.userId,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        Id: true,
+        createdAt: true,
+        expiresAt: true,
+        ipAddress: true,
+        userAgent: true
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    return NextResponse.json(
+      sessions.map((session) => ({
+        ...session,
+        current: session.Id === principal.sessionId
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  allowWithoutTwoFactor: true
+});
+
+export const DELETE = withAuth(async (request, { principal }) => {
+  try {
+    const revoked = await revokeAllSessions(principal.userId, principal.sessionId);
+
+    return NextResponse.json({ message: 'Other sessions revoked', revoked });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  allowWithoutTwoFactor: true
+});
@@ -0,0 +1,66 @@
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { readPurposeToken } from '@/lib/auth';
+import { accountLoginKey, unlockThrottle, UNLOCK_TOKEN_PURPOSE } from '@/lib/throttle';
+
+/**
+ * @swagger
+ * /api/auth/unlock:
+ *   post:
+ *     summary: Unlock an account using the link from the lockout email
+ *     description: Each link lifts the lockout it was sent for, once.
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       400:
+ *         description: Invalid or expired unlock token
+ *       500:
+ *         description: Server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unlock token is required' },
+        { status: 400 }
+      );
+    }
+
+    // The token names the lockout it was issued for, so unlocking deletes that lockout at most once
+    const claims = readPurposeToken(token, UNLOCK_TOKEN_PURPOSE);
+    const lockedUntil = claims?.nonce ? new Date(claims.nonce) : null;
+    const user = claims && lockedUntil && !isNaN(lockedUntil.getTime())
+      ? await prisma.users.findUnique({ where: { Id: claims.subject }, select: { email: true } })
+      : null;
+
+    if (!user || !lockedUntil || !(await unlockThrottle(accountLoginKey(user.email), lockedUntil))) {
+      return NextResponse.json(
+        { error: 'Invalid or expired unlock token' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Account unlocked. You can now log in.' });
+  } catch (error) {
+    console.error('Account unlock error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
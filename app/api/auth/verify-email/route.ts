@@ -26,7 +26,7 @@ import { NextRequest, NextResponse } from 'next/server';
  *                 message:
  *                   type: string
  *       400:
- *         description: Invalid or expired token
+ *         description: Invalid or expired token; expired links return code CONFIRMATION_EXPIRED
  *       500:
  *         description: Server error
  */
@@ -57,12 +57,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (user.confirmationExpiry && user.confirmationExpiry <= new Date()) {
+      return NextResponse.json(
+        {
+          error: 'Confirmation link has expired. Request a new verification email.',
+          code: 'CONFIRMATION_EXPIRED',
+          resendUrl: '/api/auth/resend-verification'
+        },
+        { status: 400 }
+      );
+    }
+
     // Update user to confirm email
     await prisma.users.update({
       where: { Id: user.Id },
       data: {
         emailConfirmed: true,
-        confirmationToken: null
+        confirmationToken: null,
+        confirmationExpiry: null
       }
     });
 
@@ -0,0 +1,93 @@
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/authorize';
+import { bidProductCreator } from '@/lib/policies';
+import { acceptBid } from '@/lib/bids';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/bids/{id}/accept:
+ *   post:
+ *     summary: Accept a bid
+ *     description: >
+ *       Atomically accepts the bid, rejects every other pending bid on the product, assigns the
+ *       upholsterer as the product's manufacturer and moves the product from open-for-bids to awarded.
+ *     tags:
+ *       - Bids
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bid accepted
+ *       400:
+ *         description: Bid is not pending or the product is not open for bids
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the product creator
+ *       404:
+ *         description: Bid not found
+ *       409:
+ *         description: Another bid was accepted first
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const { id } = params;
+    const result = await acceptBid(id, principal.userId);
+
+    if (!result.accepted) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const bid = await prisma.bids.findUnique({
+      where: { Id: id },
+      include: {
+        product: {
+          select: {
+            Id: true,
+            title: true,
+            status: true,
+            manufacturerId: true
+          }
+        },
+        upholsterer: {
+          select: {
+            Id: true,
+            fullName: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    return new Response(JSON.stringify(bid), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Error accepting bid:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}, {
+  ownership: bidProductCreator,
+  forbiddenMessage: 'Only the product creator can accept a bid'
+});
@@ -0,0 +1,119 @@
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/authorize';
+import { bidOwner } from '@/lib/policies';
+import { recordRevision } from '@/lib/bids';
+import { adjustmentLineItem } from '@/lib/bidPricing';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/bids/{id}/counter-offer/accept:
+ *   post:
+ *     summary: Accept the client's counter-offer
+ *     description: >
+ *       The upholsterer takes over the counter-offer amount and notes. An adjustment line item makes up
+ *       the difference to the itemised prices. The bid goes back to pending at the new amount, ready for
+ *       the product creator to accept.
+ *     tags:
+ *       - Bids
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Counter-offer accepted
+ *       400:
+ *         description: No open counter-offer on this bid
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the bid owner
+ *       404:
+ *         description: Bid not found
+ *       409:
+ *         description: Bid changed concurrently
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const { id } = params;
+    const counterOffer = await prisma.bidRevisions.findFirst({
+      where: { bidId: id, bid: { status: 'countered' } },
+      orderBy: { revisionNumber: 'desc' },
+      select: { kind: true, amount: true, notes: true }
+    });
+
+    if (!counterOffer || counterOffer.kind !== 'counter-offer') {
+      return new Response(JSON.stringify({ error: 'There is no open counter-offer on this bid' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const updatedBid = await prisma.$transaction(async (tx) => {
+      const current = await tx.bids.findUniqueOrThrow({
+        where: { Id: id },
+        select: { amount: true, _count: { select: { lineItems: true } } }
+      });
+
+      const { count } = await tx.bids.updateMany({
+        where: { Id: id, status: 'countered' },
+        data: {
+          amount: counterOffer.amount,
+          notes: counterOffer.notes,
+          status: 'pending',
+          updatedAt: new Date()
+        }
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      // Keep the itemised prices adding up to the agreed amount
+      const adjustment = adjustmentLineItem(
+        current.amount.toNumber(),
+        counterOffer.amount.toNumber(),
+        current._count.lineItems
+      );
+      if (adjustment) {
+        await tx.bidLineItems.create({ data: { ...adjustment, bidId: id } });
+      }
+
+      await recordRevision(tx, id, 'counter-accepted', principal.userId, counterOffer.amount, counterOffer.notes);
+      return tx.bids.findUniqueOrThrow({ where: { Id: id } });
+    });
+
+    if (!updatedBid) {
+      return new Response(JSON.stringify({ error: 'Bid was changed by someone else, please retry' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(updatedBid), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Error accepting counter-offer:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}, {
+  ownership: bidOwner,
+  adminBypass: false,
+  forbiddenMessage: 'Only the upholsterer who placed the bid can accept a counter-offer'
+});
@@ -0,0 +1,139 @@
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/authorize';
+import { bidProductCreator } from '@/lib/policies';
+import { parseAmount, recordRevision, revisionTimelineSelect } from '@/lib/bids';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/bids/{id}/counter-offer:
+ *   post:
+ *     summary: Send a counter-offer on a bid
+ *     description: >
+ *       The product creator proposes their own amount. The bid becomes countered until the upholsterer
+ *       accepts the counter-offer or revises the bid.
+ *     tags:
+ *       - Bids
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Counter-offer recorded
+ *       400:
+ *         description: Invalid amount, or the bid is not pending
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the product creator
+ *       404:
+ *         description: Bid not found
+ *       409:
+ *         description: Bid changed concurrently
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const { id } = params;
+    const { amount, notes } = await request.json();
+
+    const counterAmount = parseAmount(amount);
+    if (counterAmount === null) {
+      return new Response(JSON.stringify({ error: 'Amount must be a positive number with at most two decimals' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const bid = await prisma.bids.findUnique({
+      where: { Id: id },
+      select: { status: true, product: { select: { status: true } } }
+    });
+
+    if (!bid) {
+      return new Response(JSON.stringify({ error: 'Bid not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (bid.status !== 'pending') {
+      const error = bid.status === 'countered'
+        ? 'A counter-offer is already waiting for the upholsterer'
+        : `This bid is ${bid.status} and can no longer be negotiated`;
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (bid.product.status !== 'open-for-bids') {
+      return new Response(JSON.stringify({ error: 'Product is not open for bids' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const revision = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.bids.updateMany({
+        where: { Id: id, status: 'pending' },
+        data: { status: 'countered', updatedAt: new Date() }
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const created = await recordRevision(tx, id, 'counter-offer', principal.userId, counterAmount, notes);
+      return tx.bidRevisions.findUniqueOrThrow({
+        where: { Id: created.Id },
+        select: revisionTimelineSelect
+      });
+    });
+
+    if (!revision) {
+      return new Response(JSON.stringify({ error: 'Bid was changed by someone else, please retry' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(revision), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Error creating counter-offer:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}, {
+  ownership: bidProductCreator,
+  adminBypass: false,
+  forbiddenMessage: 'Only the product creator can send a counter-offer'
+});
@@ -0,0 +1,71 @@
+import { withAuth } from '@/lib/authorize';
+import { bidParticipant } from '@/lib/policies';
+import { renderBidQuote } from '@/lib/documents';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/bids/{id}/quote.pdf:
+ *   get:
+ *     summary: Download a bid as a PDF quote
+ *     description: Available to the upholsterer who placed the bid, the product creator and admins.
+ *     tags:
+ *       - Bids
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quote PDF
+ *         content:
+ *           application/pdf: {}
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a participant in this bid
+ *       404:
+ *         description: Bid not found
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { id } = params;
+    const quote = await renderBidQuote(id);
+
+    if (!quote) {
+      return new Response(JSON.stringify({ error: 'Bid not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(new Uint8Array(quote.pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${quote.number}.pdf"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error rendering quote:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}, {
+  ownership: bidParticipant,
+  forbiddenMessage: 'Not authorized to download this quote'
+});
@@ -1,6 +1,9 @@
 import { prisma } from '@/lib/prisma';
-import { NextRequest } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { withAuth, isAdmin } from '@/lib/authorize';
+import { bidOwner, bidParticipant } from '@/lib/policies';
+import { OPEN_BID_STATUSES, parseAmount, parseDeadline, recordRevision, revisionTimelineSelect } from '@/lib/bids';
+import { lineItemSelect, priceLineItems } from '@/lib/bidPricing';
+import { convertAmount, getExchangeRates, resolveDisplayCurrency } from '@/lib/currency';
 
 // Route Segment Config
 export const dynamic = 'force-dynamic';
@@ -8,6 +11,37 @@ export const runtime = 'nodejs';
 export const revalidate = 0;
 export const fetchCache = 'force-no-store';
 
+const bidDetailInclude = {
+  product: {
+    select: {
+      Id: true,
+      title: true,
+      description: true,
+      status: true,
+      creator: {
+        select: {
+          Id: true,
+          fullName: true
+        }
+      }
+    }
+  },
+  upholsterer: {
+    select: {
+      Id: true,
+      fullName: true
+    }
+  },
+  lineItems: {
+    select: lineItemSelect,
+    orderBy: { sortOrder: 'asc' as const }
+  },
+  revisions: {
+    select: revisionTimelineSelect,
+    orderBy: { revisionNumber: 'asc' as const }
+  }
+};
+
 // Route Types
 type Context = {
   params: { id: string };
@@ -19,23 +53,40 @@ type Context = {
  * /api/bids/{id}:
  *   get:
  *     summary: Get a bid by ID
+ *     description: Available to the upholsterer who placed the bid, the product creator and admins.
  *     tags:
  *       - Bids
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency for displayAmount; defaults to the caller's preferred currency
  *     responses:
  *       200:
- *         description: Bid details
+ *         description: Bid details, including the negotiation timeline in `revisions`
+ *       400:
+ *         description: Invalid currency
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a participant in this bid
  *       404:
  *         description: Bid not found
  *       500:
  *         description: Server error
  *   put:
  *     summary: Update a bid
+ *     description: >
+ *       The upholsterer revises line items and notes, which adds a revision to the timeline and answers any
+ *       open counter-offer. The product creator can reject the bid. Accepted or rejected bids can no longer change.
  *     tags:
  *       - Bids
  *     security:
@@ -53,24 +104,42 @@ type Context = {
  *           schema:
  *             type: object
  *             properties:
+ *               lineItems:
+ *                 type: array
+ *                 description: Replaces all line items; same format as when creating a bid
+ *                 items:
+ *                   type: object
  *               amount:
  *                 type: number
+ *                 description: Optional; when sent with lineItems it must equal their total
  *               notes:
  *                 type: string
+ *               validUntil:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
  *               status:
  *                 type: string
- *                 enum: [pending, accepted, rejected]
+ *                 enum: [rejected]
+ *                 description: Product creator only. Bids are accepted through /api/bids/{id}/accept.
  *     responses:
  *       200:
  *         description: Bid updated successfully
+ *       400:
+ *         description: Invalid status change
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not a participant in this bid
  *       404:
  *         description: Bid not found
+ *       409:
+ *         description: Bid changed concurrently
  *       500:
  *         description: Server error
  *   delete:
- *     summary: Delete a bid
+ *     summary: Withdraw a bid
+ *     description: The bid is kept with status withdrawn. Only pending or countered bids can be withdrawn.
  *     tags:
  *       - Bids
  *     security:
@@ -83,9 +152,13 @@ type Context = {
  *           type: string
  *     responses:
  *       200:
- *         description: Bid deleted successfully
+ *         description: Bid withdrawn successfully
+ *       400:
+ *         description: Bid is no longer open
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not the upholsterer who placed the bid
  *       404:
  *         description: Bid not found
  *       500:
@@ -93,38 +166,21 @@ type Context = {
  */
 
 // GET handler
-export async function GET(
-  request: NextRequest,
-  context: Context & { params: Promise<Context['params']> }
-): Promise<Response> {
+export const GET = withAuth<Context['params']>(async (request, { principal, params }) => {
   try {
-    const { id } = await context.params;
+    const { id } = params;
+    const displayCurrency = await resolveDisplayCurrency(request, principal);
+
+    if (!displayCurrency) {
+      return new Response(JSON.stringify({ error: 'Currency must be a three-letter ISO 4217 code' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     const bid = await prisma.bids.findUnique({
       where: { Id: id },
-      include: {
-        product: {
-          select: {
-            Id: true,
-            title: true,
-            description: true,
-            status: true,
-            creator: {
-              select: {
-                Id: true,
-                fullName: true,
-                email: true
-              }
-            }
-          }
-        },
-        upholsterer: {
-          select: {
-            Id: true,
-            fullName: true,
-            email: true
-          }
-        }
-      }
+      include: bidDetailInclude
     });
 
     if (!bid) {
@@ -134,7 +190,9 @@ export async function GET(
       });
     }
 
-    return new Response(JSON.stringify(bid), {
+    const displayAmount = convertAmount(await getExchangeRates(), bid.amount, bid.currency, displayCurrency);
+
+    return new Response(JSON.stringify({ ...bid, displayAmount }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
     });
@@ -145,31 +203,15 @@ export async function GET(
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
+}, {
+  ownership: bidParticipant,
+  forbiddenMessage: 'Not authorized to view this bid'
+});
 
 // PUT handler
-export async function PUT(
-  request: NextRequest,
-  context: Context & { params: Promise<Context['params']> }
-): Promise<Response> {
+export const PUT = withAuth<Context['params']>(async (request, { principal, params }) => {
   try {
-    const { id } = await context.params;
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
-      return new Response(JSON.stringify({ error: 'Authorization token required' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
-      return new Response(JSON.stringify({ error: 'Invalid token' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-
+    const { id } = params;
     const bid = await prisma.bids.findUnique({
       where: { Id: id },
       include: {
@@ -188,71 +230,150 @@ export async function PUT(
       });
     }
 
-    const { amount, notes, status } = await request.json();
-    const updateData: any = {};
+    if (!OPEN_BID_STATUSES.includes(bid.status)) {
+      return new Response(JSON.stringify({ error: `This bid is ${bid.status} and can no longer be changed` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { amount, lineItems, notes, status, validUntil } = await request.json();
+
+    // Only upholsterer can revise line items, notes and validity; every price or notes revision is kept
+    if (bid.upholstererId === principal.userId) {
+      if (amount !== undefined && lineItems === undefined) {
+        return new Response(JSON.stringify({ error: 'Send lineItems; the amount is computed from them' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (lineItems === undefined && notes === undefined && validUntil === undefined) {
+        return new Response(JSON.stringify({ error: 'No valid fields to update' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const revisedValidUntil = parseDeadline(validUntil);
+      if (!revisedValidUntil.ok) {
+        return new Response(JSON.stringify({ error: 'validUntil must be a date in the future' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (lineItems === undefined && notes === undefined) {
+        const { count } = await prisma.bids.updateMany({
+          where: { Id: id, status: { in: OPEN_BID_STATUSES } },
+          data: { validUntil: revisedValidUntil.value, updatedAt: new Date() }
+        });
+        if (count === 0) {
+          return new Response(JSON.stringify({ error: 'Bid was changed by someone else, please retry' }), {
+            status: 409,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const updatedBid = await prisma.bids.findUnique({ where: { Id: id }, include: bidDetailInclude });
+
+        return new Response(JSON.stringify(updatedBid), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const pricing = lineItems === undefined ? null : priceLineItems(lineItems);
+      if (pricing && !pricing.ok) {
+        return new Response(JSON.stringify({ error: pricing.error }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (pricing && amount !== undefined && parseAmount(amount) !== pricing.total) {
+        return new Response(JSON.stringify({ error: `Amount does not match the line items, which total ${pricing.total.toFixed(2)}` }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      const revisedAmount = pricing ? pricing.total : bid.amount;
+      const revisedNotes = notes === undefined ? bid.notes : notes;
+
+      // Conditional on the bid still being open, so a revision can't reopen a bid accepted meanwhile
+      const updatedBid = await prisma.$transaction(async (tx) => {
+        // Revising answers any open counter-offer, so the bid is pending again
+        const { count } = await tx.bids.updateMany({
+          where: { Id: id, status: { in: OPEN_BID_STATUSES } },
+          data: {
+            amount: revisedAmount,
+            notes: revisedNotes,
+            validUntil: revisedValidUntil.value,
+            status: 'pending',
+            updatedAt: new Date()
+          }
+        });
+        if (count === 0) {
+          return null;
+        }
+
+        if (pricing) {
+          await tx.bidLineItems.deleteMany({ where: { bidId: id } });
+          await tx.bidLineItems.createMany({
+            data: pricing.lineItems.map((item) => ({ ...item, bidId: id }))
+          });
+        }
+        await recordRevision(tx, id, 'revision', principal.userId, revisedAmount, revisedNotes);
+        return tx.bids.findUnique({ where: { Id: id }, include: bidDetailInclude });
+      });
+
+      if (!updatedBid) {
+        return new Response(JSON.stringify({ error: 'Bid was changed by someone else, please retry' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-    // Only upholsterer can update amount and notes
-    if (bid.upholstererId === decodedToken.userId) {
-      if (amount !== undefined) updateData.amount = parseFloat(amount);
-      if (notes !== undefined) updateData.notes = notes;
+      return new Response(JSON.stringify(updatedBid), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
-    // Only product creator can update status
-    else if (bid.product.creatorId === decodedToken.userId) {
-      if (status) updateData.status = status;
-    } else {
+
+    // Only product creator (or an admin) can update status
+    if (bid.product.creatorId !== principal.userId && !isAdmin(principal)) {
       return new Response(JSON.stringify({ error: 'Not authorized to update this bid' }), {
-        status: 401,
+        status: 403,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    if (Object.keys(updateData).length === 0) {
-      return new Response(JSON.stringify({ error: 'No valid fields to update' }), {
+    if (status === 'accepted') {
+      return new Response(JSON.stringify({ error: 'Use POST /api/bids/{id}/accept to accept a bid' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    const updatedBid = await prisma.bids.update({
-      where: { Id: id },
-      data: updateData,
-      include: {
-        product: {
-          select: {
-            Id: true,
-            title: true,
-            description: true,
-            status: true,
-            creator: {
-              select: {
-                Id: true,
-                fullName: true,
-                email: true
-              }
-            }
-          }
-        },
-        upholsterer: {
-          select: {
-            Id: true,
-            fullName: true,
-            email: true
-          }
-        }
-      }
-    });
+    if (status !== 'rejected') {
+      return new Response(JSON.stringify({ error: 'Status can only be set to rejected; use /api/bids/{id}/counter-offer to negotiate' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-    // If the bid is accepted, reject all other bids for this product
-    if (status === 'accepted') {
-      await prisma.bids.updateMany({
-        where: {
-          productId: bid.productId,
-          Id: { not: id }
-        },
-        data: { status: 'rejected' }
+    const { count } = await prisma.bids.updateMany({
+      where: { Id: id, status: { in: OPEN_BID_STATUSES } },
+      data: { status, updatedAt: new Date() }
+    });
+    if (count === 0) {
+      return new Response(JSON.stringify({ error: 'Bid was changed by someone else, please retry' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
       });
     }
 
+    const updatedBid = await prisma.bids.findUnique({ where: { Id: id }, include: bidDetailInclude });
+
     return new Response(JSON.stringify(updatedBid), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -264,70 +385,41 @@ export async function PUT(
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
+}, {
+  ownership: bidParticipant,
+  forbiddenMessage: 'Not authorized to update this bid'
+});
 
 // DELETE handler
-export async function DELETE(
-  request: NextRequest,
-  context: Context & { params: Promise<Context['params']> }
-): Promise<Response> {
+export const DELETE = withAuth<Context['params']>(async (request, { params }) => {
   try {
-    const { id } = await context.params;
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
-      return new Response(JSON.stringify({ error: 'Authorization token required' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
-      return new Response(JSON.stringify({ error: 'Invalid token' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    const { id } = params;
 
-    const bid = await prisma.bids.findUnique({
-      where: { Id: id },
-      include: {
-        product: {
-          select: {
-            creatorId: true
-          }
-        }
-      }
+    // Bids are kept for the negotiation record; deleting withdraws them
+    const { count } = await prisma.bids.updateMany({
+      where: { Id: id, status: { in: OPEN_BID_STATUSES } },
+      data: { status: 'withdrawn', updatedAt: new Date() }
     });
 
-    if (!bid) {
-      return new Response(JSON.stringify({ error: 'Bid not found' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-
-    // Only the upholsterer who created the bid or the product creator can delete it
-    if (bid.upholstererId !== decodedToken.userId && bid.product.creatorId !== decodedToken.userId) {
-      return new Response(JSON.stringify({ error: 'Not authorized to delete this bid' }), {
-        status: 401,
+    if (count === 0) {
+      return new Response(JSON.stringify({ error: 'Only pending or countered bids can be withdrawn' }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    await prisma.bids.delete({
-      where: { Id: id }
-    });
-
-    return new Response(JSON.stringify({ message: 'Bid deleted successfully' }), {
+    return new Response(JSON.stringify({ message: 'Bid withdrawn successfully' }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
     });
   } catch (error) {
-    console.error('Error deleting bid:', error);
+    console.error('Error withdrawing bid:', error);
     return new Response(JSON.stringify({ error: 'Internal server error' }), {
       status: 500,
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
+}, {
+  ownership: bidOwner,
+  forbiddenMessage: 'Only the upholsterer who placed the bid can withdraw it'
+});
@@ -1,14 +1,27 @@
 import { prisma } from '@/lib/prisma';
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken, isUpholsterer } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { profileSummarySelect, withProfileSummary } from '@/lib/upholsterers';
+import { getRatingSummaries, ratingFor } from '@/lib/reviews';
+import { isPastDeadline, parseAmount, parseDeadline } from '@/lib/bids';
+import { breakdownByKind, LINE_ITEM_KINDS, lineItemSelect, priceLineItems } from '@/lib/bidPricing';
+import { bidCursor, bidVisibility, parseBidQuery } from '@/lib/bidSearch';
+import { paginate } from '@/lib/pagination';
+import { convertAmount, exchangeRate, getExchangeRates, parseCurrency, resolveDisplayCurrency } from '@/lib/currency';
 
 /**
  * @swagger
  * /api/bids:
  *   get:
- *     summary: Get all bids with optional filters
+ *     summary: List the bids visible to the caller
+ *     description: >
+ *       Admins see every bid, upholsterers the bids they placed and clients the bids on their own
+ *       products. Results come in pages; pass the returned nextCursor as cursor to get the next one,
+ *       with the same filters and sort.
  *     tags:
  *       - Bids
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: productId
@@ -25,9 +38,66 @@ import { verifyToken, isUpholsterer } from '@/lib/auth';
  *         schema:
  *           type: string
  *         description: Filter by bid status
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *         description: Lowest amount, in the bid's own currency
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *         description: Highest amount, in the bid's own currency
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, amount-asc, amount-desc]
+ *           default: newest
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor from the previous page
+ *       - in: query
+ *         name: view
+ *         schema:
+ *           type: string
+ *           enum: [comparison]
+ *         description: >
+ *           With a productId, returns all of that product's visible bids side by side with a total
+ *           per line item kind, unpaged
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Currency for displayAmount, and the currency comparison totals are ranked in;
+ *           defaults to the caller's preferred currency
  *     responses:
  *       200:
- *         description: List of bids
+ *         description: A page of bids and the nextCursor (null on the last page), or the comparison table when view=comparison
+ *       400:
+ *         description: Invalid filter, sort, limit, cursor or currency, or a comparison without a productId
+ *       401:
+ *         description: Unauthorized
  *       500:
  *         description: Server error
  *   post:
@@ -44,39 +114,95 @@ import { verifyToken, isUpholsterer } from '@/lib/auth';
  *             type: object
  *             required:
  *               - productId
- *               - amount
+ *               - lineItems
  *             properties:
  *               productId:
  *                 type: string
+ *               currency:
+ *                 type: string
+ *                 description: >
+ *                   ISO 4217 code, defaults to the product's currency. Another currency is only
+ *                   accepted when an exchange rate to the product's currency is configured.
+ *               lineItems:
+ *                 type: array
+ *                 description: >
+ *                   Each line costs quantity × unitPrice (metres of fabric, labour hours × hourly rate, ...).
+ *                   Tax lines carry a taxRate percentage applied to the other lines. The bid amount is their total.
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - kind
+ *                   properties:
+ *                     kind:
+ *                       type: string
+ *                       enum: [fabric, filling, labor, delivery, tax]
+ *                     description:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                       default: 1
+ *                     unitPrice:
+ *                       type: number
+ *                     taxRate:
+ *                       type: number
  *               amount:
  *                 type: number
+ *                 description: Optional; when sent it must equal the computed total
  *               notes:
  *                 type: string
+ *               validUntil:
+ *                 type: string
+ *                 format: date-time
+ *                 description: The bid expires automatically after this time
  *     responses:
  *       201:
  *         description: Bid created successfully
+ *       400:
+ *         description: Invalid input, or the product is not open for bidding
  *       401:
- *         description: Unauthorized or not an upholsterer
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an upholsterer
  *       404:
  *         description: Product not found
  *       500:
  *         description: Server error
  */
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { principal }) => {
   try {
     const { searchParams } = new URL(request.url);
     const productId = searchParams.get('productId');
-    const upholstererId = searchParams.get('upholstererId');
-    const status = searchParams.get('status');
+    const view = searchParams.get('view');
+
+    if (view === 'comparison' && !productId) {
+      return NextResponse.json(
+        { error: 'The comparison view needs a productId' },
+        { status: 400 }
+      );
+    }
+
+    const displayCurrency = await resolveDisplayCurrency(request, principal);
+    if (!displayCurrency) {
+      return NextResponse.json(
+        { error: 'Currency must be a three-letter ISO 4217 code' },
+        { status: 400 }
+      );
+    }
 
-    const where: any = {};
-    if (productId) where.productId = productId;
-    if (upholstererId) where.upholstererId = upholstererId;
-    if (status) where.status = status;
+    const parsed = parseBidQuery(searchParams, principal);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    const { query } = parsed;
+    const comparison = view === 'comparison';
 
+    // The comparison table covers every visible bid on the product, so it isn't paged
     const bids = await prisma.bids.findMany({
-      where,
+      where: comparison ? { AND: [bidVisibility(principal), { productId: productId as string }] } : query.where,
       include: {
         product: {
           select: {
@@ -86,8 +212,7 @@ export async function GET(request: NextRequest) {
             creator: {
               select: {
                 Id: true,
-                fullName: true,
-                email: true
+                fullName: true
               }
             }
           }
@@ -96,16 +221,59 @@ export async function GET(request: NextRequest) {
           select: {
             Id: true,
             fullName: true,
-            email: true
+            upholstererProfile: {
+              select: profileSummarySelect
+            }
           }
+        },
+        lineItems: {
+          select: lineItemSelect,
+          orderBy: { sortOrder: 'asc' }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: query.orderBy,
+      take: comparison ? undefined : query.limit + 1
     });
 
-    return NextResponse.json(bids);
+    const ratings = await getRatingSummaries(bids.map((bid) => bid.upholstererId));
+    const rates = await getExchangeRates();
+    const withUpholsterer = bids.map((bid) => ({
+      ...bid,
+      displayAmount: convertAmount(rates, bid.amount, bid.currency, displayCurrency),
+      upholsterer: { ...withProfileSummary(bid.upholsterer), rating: ratingFor(ratings, bid.upholstererId) }
+    }));
+
+    if (!comparison) {
+      const page = paginate(withUpholsterer, query.limit, (last) => bidCursor(query, last));
+      return NextResponse.json({ bids: page.items, nextCursor: page.nextCursor });
+    }
+
+    // One row per bid with a column per line item kind, cheapest first once
+    // every total is converted into the display currency
+    const rows = withUpholsterer
+      .map((bid) => ({
+        bidId: bid.Id,
+        status: bid.status,
+        validUntil: bid.validUntil,
+        currency: bid.currency,
+        upholsterer: bid.upholsterer,
+        breakdown: breakdownByKind(bid.lineItems),
+        total: bid.amount.toNumber(),
+        displayTotal: bid.displayAmount?.amount ?? null
+      }))
+      .sort((a, b) => (a.displayTotal ?? Infinity) - (b.displayTotal ?? Infinity));
+    const currencies = Array.from(new Set(rows.map((row) => row.currency)));
+    const comparable = rows.length > 0 && rows.every((row) => row.displayTotal !== null);
+
+    return NextResponse.json({
+      productId,
+      columns: LINE_ITEM_KINDS,
+      currencies,
+      displayCurrency,
+      // A total without an exchange rate can't be ranked against the others
+      lowestBidId: comparable ? rows[0].bidId : null,
+      bids: rows
+    });
   } catch (error) {
     console.error('Error fetching bids:', error);
     return NextResponse.json(
@@ -113,39 +281,39 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { principal }) => {
   try {
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
+    const { productId, amount, currency, lineItems, notes, validUntil } = await request.json();
+
+    if (!productId || !lineItems) {
       return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
+        { error: 'Product ID and line items are required' },
+        { status: 400 }
       );
     }
 
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
+    const pricing = priceLineItems(lineItems);
+    if (!pricing.ok) {
       return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
+        { error: pricing.error },
+        { status: 400 }
       );
     }
 
-    // Check if user is an upholsterer
-    if (!isUpholsterer(decodedToken.role.toString())) {
+    // The total is always computed here; a client-side total is only checked against it
+    if (amount !== undefined && parseAmount(amount) !== pricing.total) {
       return NextResponse.json(
-        { error: 'Only upholsterers can create bids' },
-        { status: 401 }
+        { error: `Amount does not match the line items, which total ${pricing.total.toFixed(2)}` },
+        { status: 400 }
       );
     }
 
-    const { productId, amount, notes } = await request.json();
-
-    if (!productId || !amount) {
+    const bidValidUntil = parseDeadline(validUntil);
+    if (!bidValidUntil.ok) {
       return NextResponse.json(
-        { error: 'Product ID and amount are required' },
+        { error: 'validUntil must be a date in the future' },
         { status: 400 }
       );
     }
@@ -153,7 +321,7 @@ export async function POST(request: NextRequest) {
     // Check if product exists and is available for bidding
     const product = await prisma.products.findUnique({
       where: { Id: productId },
-      select: { status: true }
+      select: { status: true, biddingClosesAt: true, currency: true }
     });
 
     if (!product) {
@@ -163,18 +331,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (product.status !== 'ai-generated') {
+    if (product.status !== 'open-for-bids') {
       return NextResponse.json(
         { error: 'Product is not available for bidding' },
         { status: 400 }
       );
     }
 
+    if (isPastDeadline(product.biddingClosesAt)) {
+      return NextResponse.json(
+        { error: 'Bidding on this product has closed' },
+        { status: 400 }
+      );
+    }
+
+    const bidCurrency = parseCurrency(currency, product.currency);
+    if (!bidCurrency) {
+      return NextResponse.json(
+        { error: 'Currency must be a three-letter ISO 4217 code' },
+        { status: 400 }
+      );
+    }
+
+    // Bids on one product are compared in its currency, so any other currency needs a rate
+    if (exchangeRate(await getExchangeRates(), bidCurrency, product.currency) === null) {
+      return NextResponse.json(
+        { error: `No exchange rate from ${bidCurrency} to ${product.currency} is configured; bid in ${product.currency}` },
+        { status: 400 }
+      );
+    }
+
     // Check if upholsterer has already bid on this product
     const existingBid = await prisma.bids.findFirst({
       where: {
         productId,
-        upholstererId: decodedToken.userId
+        upholstererId: principal.userId
       }
     });
 
@@ -188,10 +379,24 @@ export async function POST(request: NextRequest) {
     const bid = await prisma.bids.create({
       data: {
         productId,
-        upholstererId: decodedToken.userId,
-        amount: parseFloat(amount.toString()),
+        upholstererId: principal.userId,
+        amount: pricing.total,
+        currency: bidCurrency,
         notes,
-        status: 'pending'
+        validUntil: bidValidUntil.value,
+        status: 'pending',
+        lineItems: {
+          create: pricing.lineItems
+        },
+        revisions: {
+          create: {
+            revisionNumber: 1,
+            kind: 'initial',
+            authorId: principal.userId,
+            amount: pricing.total,
+            notes
+          }
+        }
       },
       include: {
         product: {
@@ -201,8 +406,7 @@ export async function POST(request: NextRequest) {
             creator: {
               select: {
                 Id: true,
-                fullName: true,
-                email: true
+                fullName: true
               }
             }
           }
@@ -211,13 +415,19 @@ export async function POST(request: NextRequest) {
           select: {
             Id: true,
             fullName: true,
-            email: true
+            upholstererProfile: {
+              select: profileSummarySelect
+            }
           }
+        },
+        lineItems: {
+          select: lineItemSelect,
+          orderBy: { sortOrder: 'asc' }
         }
       }
     });
 
-    return NextResponse.json(bid, { status: 201 });
+    return NextResponse.json({ ...bid, upholsterer: withProfileSummary(bid.upholsterer) }, { status: 201 });
   } catch (error) {
     console.error('Error creating bid:', error);
     return NextResponse.json(
@@ -225,4 +435,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, {
+  roles: ['upholsterer'],
+  forbiddenMessage: 'Only upholsterers can create bids'
+});
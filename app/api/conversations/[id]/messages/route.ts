@@ -1,14 +1,19 @@
 import { prisma } from '@/lib/prisma';
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withOptionalAuth } from '@/lib/authorize';
+import { authorizeConversation, canWriteNonUserMessages } from '@/lib/conversations';
 
 /**
  * @swagger
  * /api/conversations/{id}/messages:
  *   get:
  *     summary: Get all messages in a conversation
+ *     description: Same access rules as GET /api/conversations/{id}.
  *     tags:
  *       - Messages
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
  *     parameters:
  *       - in: path
  *         name: id
@@ -28,6 +33,10 @@ import { verifyToken } from '@/lib/auth';
  *     responses:
  *       200:
  *         description: List of messages
+ *       401:
+ *         description: No credentials or access token
+ *       403:
+ *         description: Not a participant in this conversation
  *       404:
  *         description: Conversation not found
  *       500:
@@ -36,27 +45,15 @@ import { verifyToken } from '@/lib/auth';
 
 type RouteSegment = { id: string };
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<RouteSegment> }
-) {
+export const GET = withOptionalAuth<RouteSegment>(async (request, { principal, params }) => {
   try {
-    const { id } = await params;
+    const { id } = params;
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
     const before = searchParams.get('before');
 
-    // Verify conversation exists
-    const conversation = await prisma.conversations.findUnique({
-      where: { Id: id }
-    });
-
-    if (!conversation) {
-      return NextResponse.json(
-        { error: 'Conversation not found' },
-        { status: 404 }
-      );
-    }
+    const access = await authorizeConversation(request, principal, id);
+    if (!access.ok) return access.response;
 
     const where: any = {
       conversationId: id
@@ -84,15 +81,21 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * @swagger
  * /api/conversations/{id}/messages:
  *   post:
  *     summary: Add a new message to a conversation
+ *     description: >
+ *       Same access rules as GET /api/conversations/{id}. Only the server (X-Service-Key header)
+ *       or an admin may post messages with isUser set to false.
  *     tags:
  *       - Messages
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
  *     parameters:
  *       - in: path
  *         name: id
@@ -118,29 +121,21 @@ export async function GET(
  *         description: Message created successfully
  *       400:
  *         description: Invalid request
+ *       401:
+ *         description: No credentials or access token
+ *       403:
+ *         description: Not a participant, or not allowed to post non-user messages
  *       404:
  *         description: Conversation not found
  *       500:
  *         description: Server error
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<RouteSegment> }
-) {
+export const POST = withOptionalAuth<RouteSegment>(async (request, { principal, params }) => {
   try {
-    const { id } = await params;
-    
-    // Verify conversation exists
-    const conversation = await prisma.conversations.findUnique({
-      where: { Id: id }
-    });
+    const { id } = params;
 
-    if (!conversation) {
-      return NextResponse.json(
-        { error: 'Conversation not found' },
-        { status: 404 }
-      );
-    }
+    const access = await authorizeConversation(request, principal, id);
+    if (!access.ok) return access.response;
 
     const { content, isUser = true } = await request.json();
 
@@ -151,6 +146,20 @@ export async function POST(
       );
     }
 
+    if (typeof isUser !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isUser must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    if (!isUser && !canWriteNonUserMessages(request, principal)) {
+      return NextResponse.json(
+        { error: 'Only the server or an admin can post assistant messages' },
+        { status: 403 }
+      );
+    }
+
     // Create message and update conversation timestamp in a transaction
     const result = await prisma.$transaction(async (tx) => {
       const message = await tx.messages.create({
@@ -178,4 +187,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,21 @@
 import { prisma } from '@/lib/prisma';
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withOptionalAuth } from '@/lib/authorize';
+import { authorizeConversation, conversationSelect } from '@/lib/conversations';
 
 /**
  * @swagger
  * /api/conversations/{id}:
  *   get:
  *     summary: Get a conversation by ID with its messages
+ *     description: >
+ *       Open to the owner, to admins and the server, and for anonymous conversations to callers
+ *       sending its access token in the X-Conversation-Token header.
  *     tags:
  *       - Conversations
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
  *     parameters:
  *       - in: path
  *         name: id
@@ -18,6 +25,10 @@ import { verifyToken } from '@/lib/auth';
  *     responses:
  *       200:
  *         description: Conversation details with messages
+ *       401:
+ *         description: No credentials or access token
+ *       403:
+ *         description: Not a participant in this conversation
  *       404:
  *         description: Conversation not found
  *       500:
@@ -25,15 +36,16 @@ import { verifyToken } from '@/lib/auth';
  */
 type RouteSegment = { id: string };
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<RouteSegment> }
-): Promise<Response> {
+export const GET = withOptionalAuth<RouteSegment>(async (request, { principal, params }) => {
   try {
-    const { id } = await params;
+    const { id } = params;
+    const access = await authorizeConversation(request, principal, id);
+    if (!access.ok) return access.response;
+
     const conversation = await prisma.conversations.findUnique({
       where: { Id: id },
-      include: {
+      select: {
+        ...conversationSelect,
         messages: {
           orderBy: {
             createdAt: 'desc'
@@ -64,17 +76,19 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * @swagger
  * /api/conversations/{id}:
  *   delete:
  *     summary: Delete a conversation and all its messages
+ *     description: Same access rules as reading it.
  *     tags:
  *       - Conversations
  *     security:
  *       - bearerAuth: []
+ *       - {}
  *     parameters:
  *       - in: path
  *         name: id
@@ -85,53 +99,19 @@ export async function GET(
  *       200:
  *         description: Conversation deleted successfully
  *       401:
- *         description: Unauthorized
+ *         description: No credentials or access token
+ *       403:
+ *         description: Not a participant in this conversation
  *       404:
  *         description: Conversation not found
  *       500:
  *         description: Server error
  */
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<RouteSegment> }
-): Promise<Response> {
+export const DELETE = withOptionalAuth<RouteSegment>(async (request, { principal, params }) => {
   try {
-    const { id } = await params;
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
-      );
-    }
-
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    const conversation = await prisma.conversations.findUnique({
-      where: { Id: id },
-      select: { userId: true }
-    });
-
-    if (!conversation) {
-      return NextResponse.json(
-        { error: 'Conversation not found' },
-        { status: 404 }
-      );
-    }
-
-    // Only allow users to delete their own conversations
-    if (conversation.userId && conversation.userId !== decodedToken.userId) {
-      return NextResponse.json(
-        { error: 'Not authorized to delete this conversation' },
-        { status: 401 }
-      );
-    }
+    const { id } = params;
+    const access = await authorizeConversation(request, principal, id);
+    if (!access.ok) return access.response;
 
     // Delete conversation (this will cascade delete messages due to the relation)
     await prisma.$transaction([
@@ -151,4 +131,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
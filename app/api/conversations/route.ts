@@ -1,12 +1,14 @@
 import { prisma } from '@/lib/prisma';
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { isAdmin, withAuth, withOptionalAuth } from '@/lib/authorize';
+import { conversationSelect, issueConversationToken } from '@/lib/conversations';
 
 /**
  * @swagger
  * /api/conversations:
  *   get:
- *     summary: Get all conversations
+ *     summary: List the caller's conversations
+ *     description: Admins can list every conversation, or another user's with userId.
  *     tags:
  *       - Conversations
  *     security:
@@ -16,41 +18,37 @@ import { verifyToken } from '@/lib/auth';
  *         name: userId
  *         schema:
  *           type: string
- *         description: Filter by user ID
+ *         description: Filter by user ID (admins only)
  *     responses:
  *       200:
  *         description: List of conversations
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Listing another user's conversations
  *       500:
  *         description: Server error
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { principal }) => {
   try {
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
-      );
-    }
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
 
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
+    if (userId && userId !== principal.userId && !isAdmin(principal)) {
       return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
+        { error: "Not authorized to list another user's conversations" },
+        { status: 403 }
       );
     }
 
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    const where = userId ? { userId } : {};
+    let where = {};
+    if (userId) where = { userId };
+    else if (!isAdmin(principal)) where = { userId: principal.userId };
 
     const conversations = await prisma.conversations.findMany({
       where,
-      include: {
+      select: {
+        ...conversationSelect,
         messages: {
           orderBy: {
             createdAt: 'desc'
@@ -78,13 +76,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * @swagger
  * /api/conversations:
  *   post:
  *     summary: Create a new conversation
+ *     description: >
+ *       Signed-in callers own the conversation. Anonymous callers get an accessToken in the response,
+ *       shown only once, which they must send in the X-Conversation-Token header to read or continue it.
  *     tags:
  *       - Conversations
  *     security:
@@ -105,23 +106,17 @@ export async function GET(request: NextRequest) {
  *                 required: true
  *     responses:
  *       201:
- *         description: Conversation created successfully
+ *         description: Conversation created successfully, with an accessToken for anonymous callers
+ *       400:
+ *         description: Initial message missing
  *       401:
  *         description: Unauthorized
  *       500:
  *         description: Server error
  */
-export async function POST(request: NextRequest) {
+export const POST = withOptionalAuth(async (request, { principal }) => {
   try {
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    let userId: string | null = null;
-
-    if (token) {
-      const decodedToken = verifyToken(token);
-      if (decodedToken) {
-        userId = decodedToken.userId;
-      }
-    }
+    const userId = principal?.userId ?? null;
 
     const { userName, userPhone, initialMessage } = await request.json();
 
@@ -132,14 +127,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = userId ? null : issueConversationToken();
+
     // Create conversation and initial message in a transaction
     const result = await prisma.$transaction(async (tx) => {
       const conversation = await tx.conversations.create({
         data: {
           userId: userId || undefined,
           userName: userName || undefined,
-          userPhone: userPhone || undefined
-        }
+          userPhone: userPhone || undefined,
+          accessTokenHash: access?.hash
+        },
+        select: conversationSelect
       });
 
       const message = await tx.messages.create({
@@ -153,7 +152,10 @@ export async function POST(request: NextRequest) {
       return { conversation, message };
     });
 
-    return NextResponse.json(result, { status: 201 });
+    return NextResponse.json(
+      access ? { ...result, accessToken: access.token } : result,
+      { status: 201 }
+    );
   } catch (error) {
     console.error('Error creating conversation:', error);
     return NextResponse.json(
@@ -161,4 +163,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
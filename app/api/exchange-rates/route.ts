@@ -0,0 +1,177 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { DEFAULT_CURRENCY, clearExchangeRateCache, parseCurrency } from '@/lib/currency';
+
+/**
+ * @swagger
+ * /api/exchange-rates:
+ *   get:
+ *     summary: List the exchange rates used to convert displayed prices
+ *     description: Each rate is the number of units of that currency per one unit of the base currency.
+ *     tags:
+ *       - Currencies
+ *     responses:
+ *       200:
+ *         description: Base currency and rates
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Set the exchange rate for a currency
+ *     tags:
+ *       - Currencies
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currency
+ *               - rate
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 description: ISO 4217 code other than the base currency
+ *               rate:
+ *                 type: number
+ *                 description: Units of this currency per one unit of the base currency
+ *     responses:
+ *       200:
+ *         description: Rate saved
+ *       400:
+ *         description: Invalid currency or rate
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Remove the exchange rate for a currency
+ *     description: Amounts in that currency are then returned without a converted value.
+ *     tags:
+ *       - Currencies
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currency
+ *             properties:
+ *               currency:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rate removed
+ *       400:
+ *         description: Invalid currency
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: No rate for this currency
+ *       500:
+ *         description: Server error
+ */
+export async function GET() {
+  try {
+    const rates = await prisma.exchangeRates.findMany({
+      orderBy: { currency: 'asc' }
+    });
+
+    return NextResponse.json({
+      baseCurrency: DEFAULT_CURRENCY,
+      rates: rates.map((rate) => ({ ...rate, rate: rate.rate.toNumber() }))
+    });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withAuth(async (request) => {
+  try {
+    const { currency, rate } = await request.json();
+    const code = parseCurrency(currency, '');
+
+    if (!code || code === DEFAULT_CURRENCY) {
+      return NextResponse.json(
+        { error: `Currency must be a three-letter ISO 4217 code other than ${DEFAULT_CURRENCY}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0 || rate >= 1e10) {
+      return NextResponse.json(
+        { error: 'Rate must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const saved = await prisma.exchangeRates.upsert({
+      where: { currency: code },
+      create: { currency: code, rate },
+      update: { rate, updatedAt: new Date() }
+    });
+
+    clearExchangeRateCache();
+
+    return NextResponse.json({ ...saved, rate: saved.rate.toNumber() });
+  } catch (error) {
+    console.error('Error updating exchange rate:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
+
+export const DELETE = withAuth(async (request) => {
+  try {
+    const { currency } = await request.json();
+    const code = parseCurrency(currency, '');
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Currency must be a three-letter ISO 4217 code' },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.exchangeRates.deleteMany({
+      where: { currency: code }
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'No exchange rate for this currency' },
+        { status: 404 }
+      );
+    }
+
+    clearExchangeRateCache();
+
+    return NextResponse.json({ message: 'Exchange rate removed' });
+  } catch (error) {
+    console.error('Error removing exchange rate:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin']
+});
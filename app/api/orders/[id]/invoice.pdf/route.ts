@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { orderParticipant } from '@/lib/policies';
+import { renderOrderInvoice } from '@/lib/documents';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/orders/{id}/invoice.pdf:
+ *   get:
+ *     summary: Download an order invoice as a PDF
+ *     description: Available to the upholsterer fulfilling the order, the client and admins.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice PDF
+ *         content:
+ *           application/pdf: {}
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a party to this order
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { id } = params;
+    const invoice = await renderOrderInvoice(id);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(new Uint8Array(invoice.pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoice.number}.pdf"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error rendering invoice:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  ownership: orderParticipant,
+  forbiddenMessage: 'Not authorized to download this invoice'
+});
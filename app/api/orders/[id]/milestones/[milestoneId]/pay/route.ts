@@ -0,0 +1,148 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { orderClient } from '@/lib/policies';
+import { getPaymentProvider, pendingReference } from '@/lib/payments';
+
+type RouteSegment = { id: string; milestoneId: string };
+
+/**
+ * @swagger
+ * /api/orders/{id}/milestones/{milestoneId}/pay:
+ *   post:
+ *     summary: Start paying a due milestone
+ *     description: >
+ *       Creates a payment with the configured provider. The milestone stays processing until the provider
+ *       reports the outcome through its webhook; follow redirectUrl when the provider returns one.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: milestoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Payment started
+ *       400:
+ *         description: Milestone is not due
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the client on this order
+ *       404:
+ *         description: Order or milestone not found
+ *       409:
+ *         description: A payment for this milestone is already in progress
+ *       502:
+ *         description: Payment provider error
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { id, milestoneId } = params;
+    const milestone = await prisma.orderMilestones.findFirst({
+      where: { Id: milestoneId, orderId: id },
+      include: { order: { select: { orderNumber: true, currency: true } } }
+    });
+
+    if (!milestone) {
+      return NextResponse.json(
+        { error: 'Milestone not found' },
+        { status: 404 }
+      );
+    }
+
+    if (milestone.status !== 'due') {
+      return NextResponse.json(
+        { error: `This milestone is ${milestone.status} and cannot be paid now` },
+        { status: milestone.status === 'processing' ? 409 : 400 }
+      );
+    }
+
+    // Claim the milestone and record the pending payment together, so two requests can't both start one
+    const provider = getPaymentProvider();
+    const transaction = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.orderMilestones.updateMany({
+        where: { Id: milestoneId, status: 'due' },
+        data: { status: 'processing', updatedAt: new Date() }
+      });
+      if (count === 0) return null;
+
+      return tx.paymentTransactions.create({
+        data: {
+          orderId: id,
+          milestoneId,
+          kind: 'payment',
+          provider: provider.name,
+          providerReference: pendingReference(),
+          amount: milestone.amount,
+          currency: milestone.order.currency
+        }
+      });
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        { error: 'A payment for this milestone is already in progress' },
+        { status: 409 }
+      );
+    }
+
+    let payment;
+    try {
+      payment = await provider.createPayment({
+        amount: milestone.amount.toNumber(),
+        currency: milestone.order.currency,
+        description: `${milestone.order.orderNumber} ${milestone.invoiceNumber}`,
+        idempotencyKey: transaction.Id
+      });
+    } catch (error) {
+      console.error('Error creating payment with provider:', error);
+      await prisma.$transaction([
+        prisma.paymentTransactions.update({
+          where: { Id: transaction.Id },
+          data: { status: 'failed', failureReason: 'Payment provider unavailable', updatedAt: new Date() }
+        }),
+        prisma.orderMilestones.update({
+          where: { Id: milestoneId },
+          data: { status: 'due', updatedAt: new Date() }
+        })
+      ]);
+      return NextResponse.json(
+        { error: 'The payment provider is unavailable, please try again' },
+        { status: 502 }
+      );
+    }
+
+    await prisma.paymentTransactions.update({
+      where: { Id: transaction.Id },
+      data: { providerReference: payment.reference, updatedAt: new Date() }
+    });
+
+    return NextResponse.json({
+      transactionId: transaction.Id,
+      status: transaction.status,
+      redirectUrl: payment.redirectUrl
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error starting milestone payment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  ownership: orderClient,
+  adminBypass: false,
+  forbiddenMessage: 'Only the client can pay for this order'
+});
@@ -0,0 +1,197 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { getPaymentProvider, pendingReference } from '@/lib/payments';
+import { parseAmount } from '@/lib/bids';
+
+type RouteSegment = { id: string };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Pending refunds count too, so retries can't refund the same money twice
+function refundableCents(payment: { amount: Prisma.Decimal }, transactions: { kind: string; amount: Prisma.Decimal }[]) {
+  const refundedCents = transactions
+    .filter((transaction) => transaction.kind === 'refund')
+    .reduce((sum, transaction) => sum + Math.round(transaction.amount.toNumber() * 100), 0);
+  return Math.round(payment.amount.toNumber() * 100) - refundedCents;
+}
+
+/**
+ * @swagger
+ * /api/orders/{id}/refunds:
+ *   post:
+ *     summary: Refund a paid milestone
+ *     description: >
+ *       Admin only. Refunds all or part of a milestone payment through the provider. The ledger is updated
+ *       when the provider confirms the refund.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - milestoneId
+ *             properties:
+ *               milestoneId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 description: Defaults to everything paid on the milestone and not yet refunded
+ *     responses:
+ *       202:
+ *         description: Refund started
+ *       400:
+ *         description: Missing milestoneId, milestone not paid, or amount exceeds what can be refunded
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Order or milestone not found
+ *       409:
+ *         description: Another refund of the milestone was started concurrently
+ *       502:
+ *         description: Payment provider error
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { id } = params;
+    const { milestoneId, amount } = await request.json();
+
+    if (typeof milestoneId !== 'string' || !UUID_PATTERN.test(milestoneId)) {
+      return NextResponse.json(
+        { error: 'A valid milestoneId is required' },
+        { status: 400 }
+      );
+    }
+
+    const milestone = await prisma.orderMilestones.findFirst({
+      where: { Id: milestoneId, orderId: id },
+      include: {
+        order: { select: { currency: true } },
+        transactions: {
+          where: { status: { in: ['pending', 'succeeded'] } },
+          select: { kind: true, status: true, amount: true, providerReference: true }
+        }
+      }
+    });
+
+    if (!milestone) {
+      return NextResponse.json(
+        { error: 'Milestone not found' },
+        { status: 404 }
+      );
+    }
+
+    const payment = milestone.transactions.find((transaction) => transaction.kind === 'payment' && transaction.status === 'succeeded');
+    if (milestone.status !== 'paid' || !payment) {
+      return NextResponse.json(
+        { error: 'Only paid milestones can be refunded' },
+        { status: 400 }
+      );
+    }
+
+    const refundable = refundableCents(payment, milestone.transactions);
+    const refundAmount = amount === undefined ? refundable / 100 : parseAmount(amount);
+    if (refundAmount === null || refundAmount <= 0 || Math.round(refundAmount * 100) > refundable) {
+      return NextResponse.json(
+        { error: `Refund amount must be positive and at most ${(refundable / 100).toFixed(2)}` },
+        { status: 400 }
+      );
+    }
+
+    // Recorded before calling the provider so a refund can never be issued without a trace here. Touching
+    // the milestone first makes concurrent refunds of it wait for each other, so the amount is checked
+    // again against everything committed before this refund is claimed.
+    const provider = getPaymentProvider();
+    const transaction = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.orderMilestones.updateMany({
+        where: { Id: milestoneId, status: 'paid' },
+        data: { updatedAt: new Date() }
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const transactions = await tx.paymentTransactions.findMany({
+        where: { milestoneId, status: { in: ['pending', 'succeeded'] } },
+        select: { kind: true, amount: true }
+      });
+      if (Math.round(refundAmount * 100) > refundableCents(payment, transactions)) {
+        return null;
+      }
+
+      return tx.paymentTransactions.create({
+        data: {
+          orderId: id,
+          milestoneId,
+          kind: 'refund',
+          provider: provider.name,
+          providerReference: pendingReference(),
+          amount: refundAmount,
+          currency: milestone.order.currency
+        }
+      });
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        { error: 'Another refund of this milestone was started at the same time, please retry' },
+        { status: 409 }
+      );
+    }
+
+    let refund;
+    try {
+      refund = await provider.createRefund({
+        paymentReference: payment.providerReference,
+        amount: refundAmount,
+        currency: milestone.order.currency,
+        idempotencyKey: transaction.Id
+      });
+    } catch (error) {
+      console.error('Error creating refund with provider:', error);
+      await prisma.paymentTransactions.update({
+        where: { Id: transaction.Id },
+        data: { status: 'failed', failureReason: 'Payment provider unavailable', updatedAt: new Date() }
+      });
+      return NextResponse.json(
+        { error: 'The payment provider is unavailable, please try again' },
+        { status: 502 }
+      );
+    }
+
+    await prisma.paymentTransactions.update({
+      where: { Id: transaction.Id },
+      data: { providerReference: refund.reference, updatedAt: new Date() }
+    });
+
+    return NextResponse.json({
+      transactionId: transaction.Id,
+      status: transaction.status
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error starting refund:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['admin'],
+  forbiddenMessage: 'Only admins can issue refunds'
+});
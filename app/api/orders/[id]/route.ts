@@ -0,0 +1,65 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { orderParticipant } from '@/lib/policies';
+import { orderDetailInclude, summarizeLedger } from '@/lib/orders';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *   get:
+ *     summary: Get an order with its milestones and ledger
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Order details, with ledger totals and the balance due
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a party to this order
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { id } = params;
+    const order = await prisma.orders.findUnique({
+      where: { Id: id },
+      include: orderDetailInclude
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...order,
+      summary: summarizeLedger(order.ledgerEntries)
+    });
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  ownership: orderParticipant,
+  forbiddenMessage: 'Not authorized to view this order'
+});
@@ -0,0 +1,75 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth, isAdmin } from '@/lib/authorize';
+
+/**
+ * @swagger
+ * /api/orders:
+ *   get:
+ *     summary: List orders
+ *     description: Clients see orders for their products, upholsterers the orders they fulfil, admins every order.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [awaiting-payment, partially-paid, paid, cancelled]
+ *         description: Filter by order status
+ *     responses:
+ *       200:
+ *         description: List of orders, newest first
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth(async (request, { principal }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const where: Prisma.OrdersWhereInput = {};
+    if (status) where.status = status;
+    if (!isAdmin(principal)) {
+      where.OR = [{ clientId: principal.userId }, { upholstererId: principal.userId }];
+    }
+
+    const orders = await prisma.orders.findMany({
+      where,
+      include: {
+        product: {
+          select: {
+            Id: true,
+            title: true,
+            status: true
+          }
+        },
+        milestones: {
+          select: {
+            kind: true,
+            amount: true,
+            status: true,
+            invoiceNumber: true
+          },
+          orderBy: { sequence: 'asc' }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    return NextResponse.json(orders);
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processWebhook } from '@/lib/payments';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { provider: string };
+
+/**
+ * @swagger
+ * /api/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Receive payment state changes from a payment provider
+ *     description: >
+ *       The delivery is authenticated by the provider's signature. Duplicate events are acknowledged and ignored;
+ *       events for unknown payment references are refused so the provider retries them.
+ *     tags:
+ *       - Payments
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event accepted
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown provider
+ *       409:
+ *         description: Payment reference not known yet; the event is not recorded so the provider retries it
+ *       500:
+ *         description: Server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<RouteSegment> }
+) {
+  try {
+    const { provider } = await params;
+    // Signatures are computed over the exact bytes, so read the body as text
+    const rawBody = await request.text();
+    const result = await processWebhook(provider, rawBody, request.headers);
+
+    if (result.status !== 200) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ message: result.message });
+  } catch (error) {
+    console.error('Error processing payment webhook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
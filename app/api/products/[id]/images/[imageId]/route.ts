@@ -0,0 +1,77 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { productCreator } from '@/lib/policies';
+import { removeStoredImages } from '@/lib/productImages';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { id: string; imageId: string };
+
+/**
+ * @swagger
+ * /api/products/{id}/images/{imageId}:
+ *   delete:
+ *     summary: Delete a product image and its variants
+ *     tags:
+ *       - Products
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Image deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the product creator
+ *       404:
+ *         description: Product or image not found
+ *       500:
+ *         description: Server error
+ */
+export const DELETE = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { id, imageId } = params;
+
+    const image = await prisma.productImages.findFirst({
+      where: { Id: imageId, productId: id },
+      select: { storageKey: true, mimeType: true }
+    });
+
+    if (!image) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.productImages.delete({
+      where: { Id: imageId }
+    });
+    await removeStoredImages([image]);
+
+    return NextResponse.json({ message: 'Image deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting product image:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  ownership: productCreator,
+  forbiddenMessage: 'Not authorized to delete images of this product'
+});
@@ -0,0 +1,193 @@
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { productCreator } from '@/lib/policies';
+import {
+  MAX_PRODUCT_IMAGES,
+  ProductImage,
+  productImageSelect,
+  removeStoredImages,
+  storeProductImage,
+  validateImageFile
+} from '@/lib/productImages';
+
+// Route Segment Config
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/products/{id}/images:
+ *   get:
+ *     summary: List a product's images
+ *     tags:
+ *       - Products
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Images with original, medium and thumbnail URLs
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Upload product images
+ *     description: >
+ *       Accepts JPEG, PNG and WebP files. Each upload is stored with a medium (800px) and
+ *       thumbnail (200px) WebP variant. If any file is rejected, none of the batch is kept.
+ *     tags:
+ *       - Products
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - images
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Images uploaded
+ *       400:
+ *         description: Missing, unsupported or oversized files, or too many images
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the product creator
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<RouteSegment> }
+) {
+  try {
+    const { id } = await params;
+    const product = await prisma.products.findUnique({
+      where: { Id: id },
+      select: {
+        images: {
+          select: productImageSelect,
+          orderBy: { sortOrder: 'asc' }
+        }
+      }
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(product.images);
+  } catch (error) {
+    console.error('Error fetching product images:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { id } = params;
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { error: 'Expected a multipart/form-data body' },
+        { status: 400 }
+      );
+    }
+
+    const files = formData.getAll('images').filter((entry): entry is File => typeof entry !== 'string');
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one file is required in the images field' },
+        { status: 400 }
+      );
+    }
+
+    // Cheap checks on every file before any of them is processed
+    const invalid = files.map(validateImageFile).find((message) => message !== null);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.productImages.aggregate({
+      where: { productId: id },
+      _count: true,
+      _max: { sortOrder: true }
+    });
+
+    if (existing._count + files.length > MAX_PRODUCT_IMAGES) {
+      return NextResponse.json(
+        { error: `A product can have at most ${MAX_PRODUCT_IMAGES} images` },
+        { status: 400 }
+      );
+    }
+
+    const uploaded: ProductImage[] = [];
+    let sortOrder = (existing._max.sortOrder ?? -1) + 1;
+    for (const file of files) {
+      const result = await storeProductImage(id, file, sortOrder++);
+
+      if (!result.ok) {
+        const stored = await prisma.productImages.findMany({
+          where: { Id: { in: uploaded.map((image) => image.Id) } },
+          select: { storageKey: true, mimeType: true }
+        });
+        await prisma.productImages.deleteMany({ where: { Id: { in: uploaded.map((image) => image.Id) } } });
+        await removeStoredImages(stored);
+
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      uploaded.push(result.image);
+    }
+
+    return NextResponse.json(uploaded, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading product images:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  ownership: productCreator,
+  forbiddenMessage: 'Not authorized to add images to this product'
+});
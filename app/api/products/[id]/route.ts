@@ -1,6 +1,15 @@
 import { prisma } from '@/lib/prisma';
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withAuth, withOptionalAuth } from '@/lib/authorize';
+import { productCreator } from '@/lib/policies';
+import { profileSummarySelect, withProfileSummary } from '@/lib/upholsterers';
+import { getRatingSummaries, ratingFor } from '@/lib/reviews';
+import { parseDeadline } from '@/lib/bids';
+import { bidVisibility } from '@/lib/bidSearch';
+import { productImageSelect, removeStoredImages } from '@/lib/productImages';
+import { ProductStatus } from '@/lib/productLifecycle';
+import { formatSpec, productSpecSelect, ProductSpecInput, SPEC_EDITABLE_STATUSES, toSpecData, validateProductSpec } from '@/lib/productSpecs';
+import { convertAmount, getExchangeRates, parseCurrency, resolveDisplayCurrency } from '@/lib/currency';
 
 type RouteSegment = { id: string };
 
@@ -9,6 +18,9 @@ type RouteSegment = { id: string };
  * /api/products/{id}:
  *   get:
  *     summary: Get a product by ID
+ *     description: >
+ *       Everyone gets the product and its bidCount. Signed-in callers also get the bids they may see:
+ *       all of them for the creator and admins, their own for upholsterers.
  *     tags:
  *       - Products
  *     parameters:
@@ -17,9 +29,16 @@ type RouteSegment = { id: string };
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency for displayPrice and bid displayAmount; defaults to the caller's preferred currency
  *     responses:
  *       200:
  *         description: Product details
+ *       400:
+ *         description: Invalid currency
  *       404:
  *         description: Product not found
  *       500:
@@ -49,16 +68,28 @@ type RouteSegment = { id: string };
  *                 type: string
  *               price:
  *                 type: number
+ *               currency:
+ *                 type: string
+ *                 description: Can only change while the product has no bids
  *               imageUrl:
  *                 type: string
- *               status:
+ *               biddingClosesAt:
  *                 type: string
- *                 enum: [ai-generated, pending, in-progress, completed]
+ *                 format: date-time
+ *                 nullable: true
+ *               spec:
+ *                 $ref: '#/components/schemas/ProductSpec'
  *     responses:
  *       200:
  *         description: Product updated successfully
+ *       400:
+ *         description: >
+ *           Invalid input, a spec change after the product was awarded, or a status change
+ *           (those go through /api/products/{id}/status)
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not the product creator
  *       404:
  *         description: Product not found
  *       500:
@@ -78,52 +109,54 @@ type RouteSegment = { id: string };
  *     responses:
  *       200:
  *         description: Product deleted successfully
+ *       400:
+ *         description: Product has an order
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not the product creator
  *       404:
  *         description: Product not found
  *       500:
  *         description: Server error
  */
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<RouteSegment> }
-) {
+export const GET = withOptionalAuth<RouteSegment>(async (request, { principal, params }) => {
   try {
-    const { id } = await params;
+    const { id } = params;
+    const displayCurrency = await resolveDisplayCurrency(request, principal);
+
+    if (!displayCurrency) {
+      return NextResponse.json(
+        { error: 'Currency must be a three-letter ISO 4217 code' },
+        { status: 400 }
+      );
+    }
+
     const product = await prisma.products.findUnique({
       where: { Id: id },
       include: {
         creator: {
           select: {
             Id: true,
-            fullName: true,
-            email: true
+            fullName: true
           }
         },
         manufacturer: {
           select: {
             Id: true,
-            fullName: true,
-            email: true
+            fullName: true
           }
         },
-        bids: {
-          select: {
-            Id: true,
-            amount: true,
-            status: true,
-            notes: true,
-            createdAt: true,
-            upholsterer: {
-              select: {
-                Id: true,
-                fullName: true,
-                email: true
-              }
-            }
-          }
+        spec: {
+          select: productSpecSelect
+        },
+        images: {
+          select: productImageSelect,
+          orderBy: { sortOrder: 'asc' }
+        },
+        _count: {
+          select: { bids: true }
         }
       }
     });
@@ -135,7 +168,51 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(product);
+    const { _count, ...details } = product;
+    const rates = await getExchangeRates();
+    const summary = {
+      ...details,
+      spec: formatSpec(product.spec),
+      displayPrice: convertAmount(rates, product.price, product.currency, displayCurrency),
+      bidCount: _count.bids
+    };
+
+    // Anonymous callers only get the count; signed-in callers see the bids GET /api/bids would show them
+    if (!principal) {
+      return NextResponse.json(summary);
+    }
+
+    const bids = await prisma.bids.findMany({
+      where: { AND: [{ productId: id }, bidVisibility(principal)] },
+      select: {
+        Id: true,
+        amount: true,
+        currency: true,
+        status: true,
+        notes: true,
+        createdAt: true,
+        upholsterer: {
+          select: {
+            Id: true,
+            fullName: true,
+            upholstererProfile: {
+              select: profileSummarySelect
+            }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    const ratings = await getRatingSummaries(bids.map((bid) => bid.upholsterer.Id));
+
+    return NextResponse.json({
+      ...summary,
+      bids: bids.map((bid) => ({
+        ...bid,
+        displayAmount: convertAmount(rates, bid.amount, bid.currency, displayCurrency),
+        upholsterer: { ...withProfileSummary(bid.upholsterer), rating: ratingFor(ratings, bid.upholsterer.Id) }
+      }))
+    });
   } catch (error) {
     console.error('Error fetching product:', error);
     return NextResponse.json(
@@ -143,58 +220,86 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<RouteSegment> }
-) {
+export const PUT = withAuth<RouteSegment>(async (request, { params }) => {
   try {
-    const { id } = await params;
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
-      );
-    }
+    const { id } = params;
+    const { title, description, price, currency, imageUrl, biddingClosesAt, spec, status } = await request.json();
+    const updateData: any = {};
 
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
+    if (status !== undefined) {
       return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
+        { error: 'Use POST /api/products/{id}/status to change the status' },
+        { status: 400 }
       );
     }
 
-    const product = await prisma.products.findUnique({
-      where: { Id: id },
-      select: { creatorId: true }
-    });
+    if (title) updateData.title = title;
+    if (description) updateData.description = description;
+    if (price !== undefined) updateData.price = price ? parseFloat(price) : null;
+    if (imageUrl) updateData.imageUrl = imageUrl;
 
-    if (!product) {
-      return NextResponse.json(
-        { error: 'Product not found' },
-        { status: 404 }
-      );
+    if (currency !== undefined) {
+      const priceCurrency = parseCurrency(currency, '');
+      if (!priceCurrency) {
+        return NextResponse.json(
+          { error: 'Currency must be a three-letter ISO 4217 code' },
+          { status: 400 }
+        );
+      }
+
+      // Bids are priced against the product's currency, so it is fixed once the first bid arrives
+      const product = await prisma.products.findUnique({
+        where: { Id: id },
+        select: { currency: true, _count: { select: { bids: true } } }
+      });
+      if (product && product.currency !== priceCurrency && product._count.bids > 0) {
+        return NextResponse.json(
+          { error: 'The currency cannot change once the product has bids' },
+          { status: 400 }
+        );
+      }
+      updateData.currency = priceCurrency;
     }
 
-    // Only allow creator to update their own products
-    if (product.creatorId !== decodedToken.userId) {
+    const deadline = parseDeadline(biddingClosesAt);
+    if (!deadline.ok) {
       return NextResponse.json(
-        { error: 'Not authorized to update this product' },
-        { status: 401 }
+        { error: 'biddingClosesAt must be a date in the future' },
+        { status: 400 }
       );
     }
+    if (deadline.value !== undefined) updateData.biddingClosesAt = deadline.value;
 
-    const { title, description, price, imageUrl, status } = await request.json();
-    const updateData: any = {};
+    if (spec !== undefined) {
+      const specError = validateProductSpec(spec);
+      if (specError) {
+        return NextResponse.json(
+          { error: specError },
+          { status: 400 }
+        );
+      }
 
-    if (title) updateData.title = title;
-    if (description) updateData.description = description;
-    if (price !== undefined) updateData.price = price ? parseFloat(price) : null;
-    if (imageUrl) updateData.imageUrl = imageUrl;
-    if (status) updateData.status = status;
+      const product = await prisma.products.findUnique({
+        where: { Id: id },
+        select: { status: true }
+      });
+      if (!product || !SPEC_EDITABLE_STATUSES.includes(product.status as ProductStatus)) {
+        return NextResponse.json(
+          { error: `The spec can only change while the product is ${SPEC_EDITABLE_STATUSES.join(' or ')}` },
+          { status: 400 }
+        );
+      }
+
+      const specData = toSpecData(spec as ProductSpecInput);
+      updateData.spec = {
+        upsert: {
+          create: specData,
+          update: { ...specData, updatedAt: new Date() }
+        }
+      };
+    }
 
     const updatedProduct = await prisma.products.update({
       where: { Id: id },
@@ -207,6 +312,9 @@ export async function PUT(
             email: true
           }
         },
+        spec: {
+          select: productSpecSelect
+        },
         bids: {
           select: {
             Id: true,
@@ -215,7 +323,10 @@ export async function PUT(
             upholsterer: {
               select: {
                 Id: true,
-                fullName: true
+                fullName: true,
+                upholstererProfile: {
+                  select: profileSummarySelect
+                }
               }
             }
           }
@@ -223,7 +334,11 @@ export async function PUT(
       }
     });
 
-    return NextResponse.json(updatedProduct);
+    return NextResponse.json({
+      ...updatedProduct,
+      spec: formatSpec(updatedProduct.spec),
+      bids: updatedProduct.bids.map((bid) => ({ ...bid, upholsterer: withProfileSummary(bid.upholsterer) }))
+    });
   } catch (error) {
     console.error('Error updating product:', error);
     return NextResponse.json(
@@ -231,53 +346,36 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+}, {
+  ownership: productCreator,
+  forbiddenMessage: 'Not authorized to update this product'
+});
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<RouteSegment> }
-) {
+export const DELETE = withAuth<RouteSegment>(async (request, { params }) => {
   try {
-    const { id } = await params;
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
-      );
-    }
+    const { id } = params;
 
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    const product = await prisma.products.findUnique({
-      where: { Id: id },
-      select: { creatorId: true }
+    const order = await prisma.orders.findFirst({
+      where: { productId: id },
+      select: { Id: true }
     });
 
-    if (!product) {
+    if (order) {
       return NextResponse.json(
-        { error: 'Product not found' },
-        { status: 404 }
+        { error: 'Products with an order cannot be deleted; cancel the product instead' },
+        { status: 400 }
       );
     }
 
-    // Only allow creator to delete their own products
-    if (product.creatorId !== decodedToken.userId) {
-      return NextResponse.json(
-        { error: 'Not authorized to delete this product' },
-        { status: 401 }
-      );
-    }
+    const images = await prisma.productImages.findMany({
+      where: { productId: id },
+      select: { storageKey: true, mimeType: true }
+    });
 
     await prisma.products.delete({
       where: { Id: id }
     });
+    await removeStoredImages(images);
 
     return NextResponse.json({ message: 'Product deleted successfully' });
   } catch (error) {
@@ -287,4 +385,7 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+}, {
+  ownership: productCreator,
+  forbiddenMessage: 'Not authorized to delete this product'
+});
@@ -0,0 +1,194 @@
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { isPastDeadline } from '@/lib/bids';
+import { syncOrderWithProductStatus } from '@/lib/orders';
+import { allowedNextStatuses, applyTransition, checkTransition, isProductStatus, PRODUCT_STATUSES } from '@/lib/productLifecycle';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/products/{id}/status:
+ *   get:
+ *     summary: Get a product's status and status history
+ *     tags:
+ *       - Products
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current status, the statuses it can move to next and the history, oldest first
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Move a product to another lifecycle status
+ *     description: >
+ *       The lifecycle is draft → open-for-bids → awarded → in-production → shipped → delivered → completed,
+ *       and a product can be cancelled until it ships. The creator publishes, cancels and completes; the
+ *       awarded upholsterer starts production and ships; either side can confirm delivery. Admins may perform
+ *       any allowed transition. A product becomes awarded only when a bid on it is accepted. Reaching
+ *       in-production or delivered invoices the matching order milestone; cancelling cancels the order.
+ *     tags:
+ *       - Products
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [draft, open-for-bids, awarded, in-production, shipped, delivered, completed, cancelled]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *       400:
+ *         description: Unknown status or transition not allowed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to perform this transition
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: Status changed concurrently
+ *       500:
+ *         description: Server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<RouteSegment> }
+) {
+  try {
+    const { id } = await params;
+    const product = await prisma.products.findUnique({
+      where: { Id: id },
+      select: {
+        status: true,
+        statusHistory: {
+          select: {
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+            changedBy: {
+              select: {
+                Id: true,
+                fullName: true
+              }
+            }
+          },
+          orderBy: {
+            createdAt: 'asc'
+          }
+        }
+      }
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      status: product.status,
+      nextStatuses: allowedNextStatuses(product.status),
+      history: product.statusHistory
+    });
+  } catch (error) {
+    console.error('Error fetching product status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const { id } = params;
+    const { status, note } = await request.json();
+
+    if (!isProductStatus(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${PRODUCT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const product = await prisma.products.findUnique({
+      where: { Id: id },
+      select: { status: true, creatorId: true, manufacturerId: true, biddingClosesAt: true }
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    const check = checkTransition(product, status, principal);
+    if (!check.allowed) {
+      return NextResponse.json(
+        { error: check.error },
+        { status: check.status }
+      );
+    }
+
+    if (status === 'open-for-bids' && isPastDeadline(product.biddingClosesAt)) {
+      return NextResponse.json(
+        { error: 'The bidding deadline has passed; move it forward before opening the product for bids' },
+        { status: 400 }
+      );
+    }
+
+    const changed = await prisma.$transaction(async (tx) => {
+      const applied = await applyTransition(tx, id, product.status, status, principal.userId, note);
+      if (applied) {
+        await syncOrderWithProductStatus(tx, id, status);
+      }
+      return applied;
+    });
+
+    if (!changed) {
+      return NextResponse.json(
+        { error: 'Product status was changed by someone else, please retry' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      status,
+      nextStatuses: allowedNextStatuses(status)
+    });
+  } catch (error) {
+    console.error('Error changing product status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
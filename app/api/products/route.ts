@@ -1,28 +1,159 @@
 import { prisma } from '@/lib/prisma';
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withAuth, withOptionalAuth } from '@/lib/authorize';
+import { INITIAL_PRODUCT_STATUSES } from '@/lib/productLifecycle';
+import { parseDeadline } from '@/lib/bids';
+import { formatSpec, productSpecSelect, ProductSpecInput, toSpecData, validateProductSpec } from '@/lib/productSpecs';
+import { parseProductQuery, productCursor } from '@/lib/productSearch';
+import { paginate } from '@/lib/pagination';
+import { convertAmount, getExchangeRates, parseCurrency, resolveDisplayCurrency } from '@/lib/currency';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ProductSpec:
+ *       type: object
+ *       description: >
+ *         What the upholsterer is asked to make. Round and cylinder poufs are measured by diameterCm,
+ *         square ones by widthCm and depthCm. Dimensions are in centimetres with at most one decimal.
+ *       required:
+ *         - shape
+ *         - heightCm
+ *         - fabricType
+ *         - fabricColour
+ *         - fillingType
+ *         - firmness
+ *       properties:
+ *         shape:
+ *           type: string
+ *           enum: [round, square, cylinder]
+ *         diameterCm:
+ *           type: number
+ *         widthCm:
+ *           type: number
+ *         depthCm:
+ *           type: number
+ *         heightCm:
+ *           type: number
+ *         fabricType:
+ *           type: string
+ *           enum: [leather, faux-leather, velvet, linen, cotton, wool, boucle, outdoor, faux-fur]
+ *         fabricColour:
+ *           type: string
+ *         fillingType:
+ *           type: string
+ *           enum: [foam, memory-foam, polystyrene-beads, fibre, feather, mixed]
+ *         firmness:
+ *           type: string
+ *           enum: [soft, medium, firm]
+ *         piping:
+ *           type: boolean
+ *           default: false
+ *         handles:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 4
+ *           default: 0
+ *         quantity:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ */
 
 /**
  * @swagger
  * /api/products:
  *   get:
- *     summary: Get all products with optional filters
+ *     summary: Search and list products
+ *     description: >
+ *       Results come in pages; pass the returned nextCursor as cursor to get the next one,
+ *       with the same filters and sort. Bids are summarised as a bidCount.
  *     tags:
  *       - Products
  *     parameters:
  *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Keywords that must all appear in the title or description
+ *       - in: query
  *         name: status
  *         schema:
  *           type: string
+ *           enum: [draft, open-for-bids, awarded, in-production, shipped, delivered, completed, cancelled]
  *         description: Filter by product status
  *       - in: query
  *         name: creatorId
  *         schema:
  *           type: string
  *         description: Filter by creator ID
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *         description: Lowest price, in the product's own currency
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *         description: Highest price, in the product's own currency
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: shape
+ *         schema:
+ *           type: string
+ *           enum: [round, square, cylinder]
+ *       - in: query
+ *         name: fabricType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: fillingType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: firmness
+ *         schema:
+ *           type: string
+ *           enum: [soft, medium, firm]
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, price-asc, price-desc, most-bids, fewest-bids]
+ *           default: newest
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor from the previous page
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency for displayPrice; defaults to the caller's preferred currency
  *     responses:
  *       200:
- *         description: List of products
+ *         description: A page of products and the nextCursor, which is null on the last page
+ *       400:
+ *         description: Invalid filter, sort, limit, cursor or currency
  *       500:
  *         description: Server error
  *   post:
@@ -47,67 +178,99 @@ import { verifyToken } from '@/lib/auth';
  *                 type: string
  *               price:
  *                 type: number
+ *               currency:
+ *                 type: string
+ *                 description: ISO 4217 code of the price, defaults to the platform currency
  *               imageUrl:
  *                 type: string
+ *               biddingClosesAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: No new bids are accepted after this time
+ *               spec:
+ *                 $ref: '#/components/schemas/ProductSpec'
  *               status:
  *                 type: string
- *                 enum: [ai-generated, pending, in-progress, completed]
+ *                 enum: [draft, open-for-bids]
+ *                 default: open-for-bids
+ *                 description: Create as a draft to keep it hidden from bidding until published
  *     responses:
  *       201:
  *         description: Product created successfully
+ *       400:
+ *         description: Invalid input
  *       401:
  *         description: Unauthorized
  *       500:
  *         description: Server error
  */
 
-export async function GET(request: NextRequest) {
+export const GET = withOptionalAuth(async (request, { principal }) => {
   try {
     const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status');
-    const creatorId = searchParams.get('creatorId');
+    const displayCurrency = await resolveDisplayCurrency(request, principal);
+
+    if (!displayCurrency) {
+      return NextResponse.json(
+        { error: 'Currency must be a three-letter ISO 4217 code' },
+        { status: 400 }
+      );
+    }
 
-    const where: any = {};
-    if (status) where.status = status;
-    if (creatorId) where.creatorId = creatorId;
+    const parsed = parseProductQuery(searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    const { query } = parsed;
 
     const products = await prisma.products.findMany({
-      where,
+      where: query.where,
       include: {
         creator: {
           select: {
             Id: true,
-            fullName: true,
-            email: true
+            fullName: true
           }
         },
         manufacturer: {
           select: {
             Id: true,
-            fullName: true,
-            email: true
+            fullName: true
           }
         },
-        bids: {
-          select: {
-            Id: true,
-            amount: true,
-            status: true,
-            upholsterer: {
-              select: {
-                Id: true,
-                fullName: true
-              }
-            }
-          }
+        spec: {
+          select: productSpecSelect
+        },
+        images: {
+          select: { thumbnailUrl: true },
+          orderBy: { sortOrder: 'asc' },
+          take: 1
+        },
+        _count: {
+          select: { bids: true }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: query.orderBy,
+      skip: query.skip,
+      take: query.limit + 1
     });
 
-    return NextResponse.json(products);
+    const rates = await getExchangeRates();
+    const page = paginate(products, query.limit, (last) => productCursor(query, last));
+
+    return NextResponse.json({
+      products: page.items.map(({ _count, images, ...product }) => ({
+        ...product,
+        spec: formatSpec(product.spec),
+        thumbnailUrl: images[0]?.thumbnailUrl ?? null,
+        bidCount: _count.bids,
+        displayPrice: convertAmount(rates, product.price, product.currency, displayCurrency)
+      })),
+      nextCursor: page.nextCursor
+    });
   } catch (error) {
     console.error('Error fetching products:', error);
     return NextResponse.json(
@@ -115,56 +278,89 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { principal }) => {
   try {
-    const token = request.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
+    const { title, description, price, currency, imageUrl, biddingClosesAt, spec, status = 'open-for-bids' } = await request.json();
+
+    if (!title || !description) {
       return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
+        { error: 'Title and description are required' },
+        { status: 400 }
       );
     }
 
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) {
+    const specError = spec !== undefined ? validateProductSpec(spec) : null;
+    if (specError) {
       return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 401 }
+        { error: specError },
+        { status: 400 }
       );
     }
 
-    const { title, description, price, imageUrl, status = 'ai-generated' } = await request.json();
+    const priceCurrency = parseCurrency(currency);
+    if (!priceCurrency) {
+      return NextResponse.json(
+        { error: 'Currency must be a three-letter ISO 4217 code' },
+        { status: 400 }
+      );
+    }
 
-    if (!title || !description) {
+    const deadline = parseDeadline(biddingClosesAt);
+    if (!deadline.ok) {
       return NextResponse.json(
-        { error: 'Title and description are required' },
+        { error: 'biddingClosesAt must be a date in the future' },
         { status: 400 }
       );
     }
 
-    const product = await prisma.products.create({
-      data: {
-        title,
-        description,
-        price: price ? parseFloat(price) : null,
-        imageUrl,
-        status,
-        creatorId: decodedToken.userId
-      },
-      include: {
-        creator: {
-          select: {
-            Id: true,
-            fullName: true,
-            email: true
+    if (!INITIAL_PRODUCT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `New products must start as ${INITIAL_PRODUCT_STATUSES.join(' or ')}` },
+        { status: 400 }
+      );
+    }
+
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.products.create({
+        data: {
+          title,
+          description,
+          price: price ? parseFloat(price) : null,
+          currency: priceCurrency,
+          imageUrl,
+          biddingClosesAt: deadline.value,
+          status,
+          creatorId: principal.userId,
+          spec: spec !== undefined ? { create: toSpecData(spec as ProductSpecInput) } : undefined
+        },
+        include: {
+          creator: {
+            select: {
+              Id: true,
+              fullName: true,
+              email: true
+            }
+          },
+          spec: {
+            select: productSpecSelect
           }
         }
-      }
+      });
+
+      await tx.productStatusHistory.create({
+        data: {
+          productId: created.Id,
+          toStatus: status,
+          changedById: principal.userId
+        }
+      });
+
+      return created;
     });
 
-    return NextResponse.json(product, { status: 201 });
+    return NextResponse.json({ ...product, spec: formatSpec(product.spec) }, { status: 201 });
   } catch (error) {
     console.error('Error creating product:', error);
     return NextResponse.json(
@@ -172,4 +368,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
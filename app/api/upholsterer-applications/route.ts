@@ -0,0 +1,133 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+
+/**
+ * @swagger
+ * /api/upholsterer-applications:
+ *   get:
+ *     summary: List the current user's upholsterer applications
+ *     tags:
+ *       - Upholsterer Applications
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of applications, newest first
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Apply to become an upholsterer
+ *     description: An admin reviews the application; the applicant is emailed the decision.
+ *     tags:
+ *       - Upholsterer Applications
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - businessName
+ *             properties:
+ *               businessName:
+ *                 type: string
+ *               businessAddress:
+ *                 type: string
+ *               businessPhone:
+ *                 type: string
+ *               website:
+ *                 type: string
+ *               yearsExperience:
+ *                 type: integer
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Application submitted
+ *       400:
+ *         description: Invalid input or an application is already pending
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only clients can apply
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth(async (request, { principal }) => {
+  try {
+    const applications = await prisma.upholstererApplications.findMany({
+      where: { userId: principal.userId },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    return NextResponse.json(applications);
+  } catch (error) {
+    console.error('Error fetching applications:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    const { businessName, businessAddress, businessPhone, website, yearsExperience, description } = await request.json();
+
+    if (!businessName) {
+      return NextResponse.json(
+        { error: 'Business name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (yearsExperience !== undefined && (!Number.isInteger(yearsExperience) || yearsExperience < 0)) {
+      return NextResponse.json(
+        { error: 'Years of experience must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const pendingApplication = await prisma.upholstererApplications.findFirst({
+      where: { userId: principal.userId, status: 'pending' },
+      select: { Id: true }
+    });
+
+    if (pendingApplication) {
+      return NextResponse.json(
+        { error: 'You already have a pending application' },
+        { status: 400 }
+      );
+    }
+
+    const application = await prisma.upholstererApplications.create({
+      data: {
+        userId: principal.userId,
+        businessName,
+        businessAddress,
+        businessPhone,
+        website,
+        yearsExperience,
+        description
+      }
+    });
+
+    return NextResponse.json(application, { status: 201 });
+  } catch (error) {
+    console.error('Error submitting application:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['client'],
+  forbiddenMessage: 'Only client accounts can apply to become upholsterers'
+});
@@ -0,0 +1,88 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { reviewedUpholsterer } from '@/lib/policies';
+
+type RouteSegment = { id: string; reviewId: string };
+
+/**
+ * @swagger
+ * /api/upholsterers/{id}/reviews/{reviewId}/reply:
+ *   put:
+ *     summary: Reply to a review
+ *     description: The reviewed upholsterer can post one public reply, and may edit it later.
+ *     tags:
+ *       - Upholsterers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reply
+ *             properties:
+ *               reply:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reply saved
+ *       400:
+ *         description: Reply missing
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the reviewed upholsterer
+ *       404:
+ *         description: Review not found
+ *       500:
+ *         description: Server error
+ */
+export const PUT = withAuth<RouteSegment>(async (request, { params }) => {
+  try {
+    const { reviewId } = params;
+    const { reply } = await request.json();
+
+    if (!reply || typeof reply !== 'string') {
+      return NextResponse.json(
+        { error: 'Reply is required' },
+        { status: 400 }
+      );
+    }
+
+    const updatedReview = await prisma.upholstererReviews.update({
+      where: { Id: reviewId },
+      data: {
+        reply,
+        repliedAt: new Date(),
+        updatedAt: new Date()
+      }
+    });
+
+    return NextResponse.json(updatedReview);
+  } catch (error) {
+    console.error('Error replying to review:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['upholsterer'],
+  ownership: reviewedUpholsterer,
+  adminBypass: false,
+  forbiddenMessage: 'Only the reviewed upholsterer can reply'
+});
@@ -0,0 +1,236 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { REVIEWABLE_PRODUCT_STATUS, getRatingSummaries, ratingFor } from '@/lib/reviews';
+
+type RouteSegment = { id: string };
+
+const reviewInclude = {
+  reviewer: {
+    select: {
+      Id: true,
+      fullName: true
+    }
+  },
+  product: {
+    select: {
+      Id: true,
+      title: true
+    }
+  }
+};
+
+/**
+ * @swagger
+ * /api/upholsterers/{id}/reviews:
+ *   get:
+ *     summary: List reviews for an upholsterer
+ *     tags:
+ *       - Upholsterers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rating summary and reviews, newest first
+ *       404:
+ *         description: Upholsterer not found
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Review an upholsterer for a completed product
+ *     description: Only the creator of a completed product whose accepted bid belongs to this upholsterer may review, once per product.
+ *     tags:
+ *       - Upholsterers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *               - rating
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Review created
+ *       400:
+ *         description: Invalid input, product not completed or already reviewed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the product creator
+ *       404:
+ *         description: Product or accepted bid not found
+ *       500:
+ *         description: Server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<RouteSegment> }
+) {
+  try {
+    const { id } = await params;
+    const upholsterer = await prisma.users.findFirst({
+      where: { Id: id, role: 'upholsterer' },
+      select: { Id: true }
+    });
+
+    if (!upholsterer) {
+      return NextResponse.json(
+        { error: 'Upholsterer not found' },
+        { status: 404 }
+      );
+    }
+
+    const [reviews, summaries] = await Promise.all([
+      prisma.upholstererReviews.findMany({
+        where: { upholstererId: id },
+        include: reviewInclude,
+        orderBy: {
+          createdAt: 'desc'
+        }
+      }),
+      getRatingSummaries([id])
+    ]);
+
+    return NextResponse.json({
+      rating: ratingFor(summaries, id),
+      reviews
+    });
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAuth<RouteSegment>(async (request, { principal, params }) => {
+  try {
+    const { id } = params;
+    const { productId, rating, comment } = await request.json();
+
+    if (!productId || rating === undefined) {
+      return NextResponse.json(
+        { error: 'Product ID and rating are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return NextResponse.json(
+        { error: 'Rating must be a whole number from 1 to 5' },
+        { status: 400 }
+      );
+    }
+
+    if (comment != null && typeof comment !== 'string') {
+      return NextResponse.json(
+        { error: 'Comment must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const product = await prisma.products.findUnique({
+      where: { Id: productId },
+      select: {
+        creatorId: true,
+        status: true,
+        review: { select: { Id: true } },
+        bids: {
+          where: { status: 'accepted', upholstererId: id },
+          select: { Id: true }
+        }
+      }
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    if (product.creatorId !== principal.userId) {
+      return NextResponse.json(
+        { error: 'Only the product creator can leave a review' },
+        { status: 403 }
+      );
+    }
+
+    if (product.bids.length === 0) {
+      return NextResponse.json(
+        { error: 'This upholsterer has no accepted bid on the product' },
+        { status: 404 }
+      );
+    }
+
+    if (product.status !== REVIEWABLE_PRODUCT_STATUS) {
+      return NextResponse.json(
+        { error: 'Reviews can only be left once the product is completed' },
+        { status: 400 }
+      );
+    }
+
+    if (product.review) {
+      return NextResponse.json(
+        { error: 'You have already reviewed this product' },
+        { status: 400 }
+      );
+    }
+
+    let review;
+    try {
+      review = await prisma.upholstererReviews.create({
+        data: {
+          productId,
+          upholstererId: id,
+          reviewerId: principal.userId,
+          rating,
+          comment
+        },
+        include: reviewInclude
+      });
+    } catch (error) {
+      // A concurrent request reviewed the product first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json(
+          { error: 'You have already reviewed this product' },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json(review, { status: 201 });
+  } catch (error) {
+    console.error('Error creating review:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,71 @@
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatProfile, profileInclude } from '@/lib/upholsterers';
+import { getRatingSummaries, ratingFor } from '@/lib/reviews';
+
+type RouteSegment = { id: string };
+
+/**
+ * @swagger
+ * /api/upholsterers/{id}:
+ *   get:
+ *     summary: Get an upholsterer's public profile
+ *     description: Public view of an upholsterer's business profile and portfolio. Contact details are not included.
+ *     tags:
+ *       - Upholsterers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Upholsterer user ID
+ *     responses:
+ *       200:
+ *         description: Upholsterer profile
+ *       404:
+ *         description: Upholsterer not found
+ *       500:
+ *         description: Server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<RouteSegment> }
+) {
+  try {
+    const { id } = await params;
+    const upholsterer = await prisma.users.findFirst({
+      where: { Id: id, role: 'upholsterer' },
+      select: {
+        Id: true,
+        fullName: true,
+        createdAt: true,
+        upholstererProfile: {
+          include: profileInclude
+        }
+      }
+    });
+
+    if (!upholsterer) {
+      return NextResponse.json(
+        { error: 'Upholsterer not found' },
+        { status: 404 }
+      );
+    }
+
+    const { upholstererProfile, ...user } = upholsterer;
+    const ratings = await getRatingSummaries([user.Id]);
+
+    return NextResponse.json({
+      ...user,
+      profile: upholstererProfile ? formatProfile(upholstererProfile) : null,
+      rating: ratingFor(ratings, user.Id)
+    });
+  } catch (error) {
+    console.error('Error fetching upholsterer:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import {
+  PortfolioImageInput,
+  formatProfile,
+  profileInclude,
+  serializeSpecialties,
+  validateProfileInput
+} from '@/lib/upholsterers';
+
+/**
+ * @swagger
+ * /api/upholsterers/me/profile:
+ *   get:
+ *     summary: Get the current upholsterer's business profile
+ *     tags:
+ *       - Upholsterers
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Business profile
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an upholsterer
+ *       404:
+ *         description: Profile not created yet
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Create or replace the current upholsterer's business profile
+ *     description: When portfolioImages is provided it replaces the whole portfolio, in the given order.
+ *     tags:
+ *       - Upholsterers
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               bio:
+ *                 type: string
+ *               workshopLocation:
+ *                 type: string
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               serviceRadiusKm:
+ *                 type: integer
+ *               specialties:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [leather, velvet, outdoor, linen, boucle, wool, faux-fur, restoration]
+ *               leadTimeDays:
+ *                 type: integer
+ *               portfolioImages:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     imageUrl:
+ *                       type: string
+ *                     caption:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Profile saved
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an upholsterer
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth(async (request, { principal }) => {
+  try {
+    const profile = await prisma.upholstererProfiles.findUnique({
+      where: { userId: principal.userId },
+      include: profileInclude
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(formatProfile(profile));
+  } catch (error) {
+    console.error('Error fetching upholsterer profile:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['upholsterer'],
+  forbiddenMessage: 'Only upholsterers have a business profile'
+});
+
+export const PUT = withAuth(async (request, { principal }) => {
+  try {
+    const body = await request.json();
+    const validationError = validateProfileInput(body);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const { bio, workshopLocation, latitude, longitude, serviceRadiusKm, specialties, leadTimeDays } = body;
+    const portfolioImages: PortfolioImageInput[] | undefined = body.portfolioImages;
+
+    const data = {
+      bio,
+      workshopLocation,
+      latitude,
+      longitude,
+      serviceRadiusKm,
+      leadTimeDays,
+      specialties: specialties ? serializeSpecialties(specialties) : undefined
+    };
+
+    const profile = await prisma.$transaction(async (tx) => {
+      const saved = await tx.upholstererProfiles.upsert({
+        where: { userId: principal.userId },
+        create: { ...data, userId: principal.userId },
+        update: { ...data, updatedAt: new Date() }
+      });
+
+      if (portfolioImages) {
+        await tx.upholstererPortfolioImages.deleteMany({ where: { profileId: saved.Id } });
+        await tx.upholstererPortfolioImages.createMany({
+          data: portfolioImages.map((image, index) => ({
+            profileId: saved.Id,
+            imageUrl: image.imageUrl,
+            caption: image.caption ?? null,
+            sortOrder: index
+          }))
+        });
+      }
+
+      return tx.upholstererProfiles.findUniqueOrThrow({
+        where: { Id: saved.Id },
+        include: profileInclude
+      });
+    });
+
+    return NextResponse.json(formatProfile(profile));
+  } catch (error) {
+    console.error('Error saving upholsterer profile:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: ['upholsterer'],
+  forbiddenMessage: 'Only upholsterers have a business profile'
+});
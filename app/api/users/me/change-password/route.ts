@@ -0,0 +1,98 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { hashPassword, verifyPassword } from '@/lib/password';
+import { revokeAllSessions } from '@/lib/session';
+import { sendEmail, generatePasswordChangedEmail } from '@/lib/email';
+
+/**
+ * @swagger
+ * /api/users/me/change-password:
+ *   post:
+ *     summary: Change the current user's password
+ *     description: Every other session is revoked; the current one stays signed in.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized or wrong current password
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    const { currentPassword, newPassword } = await request.json();
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: 'Current password and new password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (newPassword.length < 8) {
+      return NextResponse.json(
+        { error: 'Password must be at least 8 characters long' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: { email: true, passwordHash: true, passwordSalt: true }
+    });
+
+    if (!user || !(await verifyPassword(currentPassword, user.passwordHash, user.passwordSalt))) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 401 }
+      );
+    }
+
+    await prisma.users.update({
+      where: { Id: principal.userId },
+      data: {
+        ...(await hashPassword(newPassword)),
+        updatedAt: new Date()
+      }
+    });
+
+    await revokeAllSessions(principal.userId, principal.sessionId);
+
+    const emailSent = await sendEmail(generatePasswordChangedEmail(user.email));
+    if (!emailSent) {
+      console.error('Failed to send password changed email to:', user.email);
+    }
+
+    return NextResponse.json({ message: 'Password changed successfully' });
+  } catch (error) {
+    console.error('Error changing password:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { hashToken } from '@/lib/auth';
+
+/**
+ * @swagger
+ * /api/users/me/email/confirm:
+ *   post:
+ *     summary: Confirm a pending email change
+ *     description: Uses the token from the link sent to the new address, so no bearer token is needed.
+ *     tags:
+ *       - Users
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email changed
+ *       400:
+ *         description: Invalid or expired token, or the address was taken in the meantime
+ *       500:
+ *         description: Server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.users.findFirst({
+      where: {
+        pendingEmailTokenHash: hashToken(token),
+        pendingEmailExpiry: { gt: new Date() }
+      },
+      select: { Id: true, pendingEmail: true }
+    });
+
+    if (!user?.pendingEmail) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 400 }
+      );
+    }
+
+    const taken = await prisma.users.findUnique({
+      where: { email: user.pendingEmail },
+      select: { Id: true }
+    });
+
+    if (taken) {
+      return NextResponse.json(
+        { error: 'Email already registered' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.users.update({
+      where: { Id: user.Id },
+      data: {
+        email: user.pendingEmail,
+        emailConfirmed: true,
+        pendingEmail: null,
+        pendingEmailTokenHash: null,
+        pendingEmailExpiry: null,
+        updatedAt: new Date()
+      }
+    });
+
+    return NextResponse.json({ message: 'Email address updated successfully' });
+  } catch (error) {
+    console.error('Error confirming email change:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { withAuth } from '@/lib/authorize';
+import { hashToken } from '@/lib/auth';
+import { verifyPassword } from '@/lib/password';
+import { EMAIL_REGEX } from '@/lib/accounts';
+import { sendEmail, generateEmailChangeEmail, CONFIRMATION_TOKEN_TTL_HOURS } from '@/lib/email';
+
+/**
+ * @swagger
+ * /api/users/me/email:
+ *   post:
+ *     summary: Request an email address change
+ *     description: A confirmation link is sent to the new address; the email is only switched once it is confirmed.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newEmail
+ *               - password
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Confirmation email sent to the new address
+ *       400:
+ *         description: Invalid email or already in use
+ *       401:
+ *         description: Unauthorized or wrong password
+ *       500:
+ *         description: Server error
+ */
+export const POST = withAuth(async (request, { principal }) => {
+  try {
+    const { newEmail, password } = await request.json();
+
+    if (!newEmail || !password) {
+      return NextResponse.json(
+        { error: 'New email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!EMAIL_REGEX.test(newEmail)) {
+      return NextResponse.json(
+        { error: 'Invalid email format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: { email: true, passwordHash: true, passwordSalt: true }
+    });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash, user.passwordSalt))) {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 401 }
+      );
+    }
+
+    const existingUser = await prisma.users.findUnique({
+      where: { email: newEmail },
+      select: { Id: true }
+    });
+
+    if (existingUser || newEmail === user.email) {
+      return NextResponse.json(
+        { error: 'Email already registered' },
+        { status: 400 }
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await prisma.users.update({
+      where: { Id: principal.userId },
+      data: {
+        pendingEmail: newEmail,
+        pendingEmailTokenHash: hashToken(token),
+        pendingEmailExpiry: new Date(Date.now() + CONFIRMATION_TOKEN_TTL_HOURS * 60 * 60 * 1000)
+      }
+    });
+
+    const emailSent = await sendEmail(generateEmailChangeEmail(newEmail, token));
+    if (!emailSent) {
+      console.error('Failed to send email change confirmation to:', newEmail);
+    }
+
+    return NextResponse.json({
+      message: 'Check your new email address to confirm the change.'
+    });
+  } catch (error) {
+    console.error('Error requesting email change:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
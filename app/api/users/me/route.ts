@@ -0,0 +1,227 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/authorize';
+import { verifyPassword } from '@/lib/password';
+import { deleteAccount } from '@/lib/accounts';
+import { getExchangeRates, parseCurrency } from '@/lib/currency';
+
+const profileSelect = {
+  Id: true,
+  fullName: true,
+  email: true,
+  phoneNumber: true,
+  preferredCurrency: true,
+  role: true,
+  emailConfirmed: true,
+  pendingEmail: true,
+  totpEnabled: true,
+  lastLoginDate: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   get:
+ *     summary: Get the current user's profile
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User profile
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ *   patch:
+ *     summary: Update the current user's profile
+ *     description: Email changes go through /api/users/me/email so the new address is verified first.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fullName:
+ *                 type: string
+ *               phoneNumber:
+ *                 type: string
+ *                 nullable: true
+ *               preferredCurrency:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Prices and bids are also returned converted to this currency
+ *     responses:
+ *       200:
+ *         description: Profile updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete the current user's account
+ *     description: >
+ *       Personal data is scrubbed and the account can no longer log in. Conversations, pending bids
+ *       and products without an accepted bid are removed; accepted jobs are kept for the other party
+ *       under an anonymized user.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Account deleted
+ *       400:
+ *         description: Password missing
+ *       401:
+ *         description: Unauthorized or wrong password
+ *       500:
+ *         description: Server error
+ */
+export const GET = withAuth(async (request, { principal }) => {
+  try {
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: profileSelect
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Error fetching profile:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PATCH = withAuth(async (request, { principal }) => {
+  try {
+    const { fullName, phoneNumber, preferredCurrency, email } = await request.json();
+    const updateData: Prisma.UsersUpdateInput = {};
+
+    if (email !== undefined) {
+      return NextResponse.json(
+        { error: 'Use /api/users/me/email to change your email address' },
+        { status: 400 }
+      );
+    }
+
+    if (fullName !== undefined) {
+      if (typeof fullName !== 'string' || !fullName.trim() || fullName.length > 255) {
+        return NextResponse.json(
+          { error: 'Full name must be between 1 and 255 characters' },
+          { status: 400 }
+        );
+      }
+      updateData.fullName = fullName.trim();
+    }
+
+    if (phoneNumber !== undefined) {
+      if (phoneNumber !== null && (typeof phoneNumber !== 'string' || phoneNumber.length > 20)) {
+        return NextResponse.json(
+          { error: 'Phone number must be at most 20 characters' },
+          { status: 400 }
+        );
+      }
+      updateData.phoneNumber = phoneNumber || null;
+    }
+
+    if (preferredCurrency !== undefined) {
+      const currency = preferredCurrency === null ? null : parseCurrency(preferredCurrency, '');
+      if (preferredCurrency !== null && (!currency || !(await getExchangeRates()).has(currency))) {
+        return NextResponse.json(
+          { error: 'Preferred currency must be one listed at /api/exchange-rates' },
+          { status: 400 }
+        );
+      }
+      updateData.preferredCurrency = currency;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No valid fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.users.update({
+      where: { Id: principal.userId },
+      data: { ...updateData, updatedAt: new Date() },
+      select: profileSelect
+    });
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth(async (request, { principal }) => {
+  try {
+    const { password } = await request.json();
+
+    if (!password) {
+      return NextResponse.json(
+        { error: 'Password is required to delete your account' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: { passwordHash: true, passwordSalt: true }
+    });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash, user.passwordSalt))) {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 401 }
+      );
+    }
+
+    await deleteAccount(principal.userId);
+
+    return NextResponse.json({ message: 'Account deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
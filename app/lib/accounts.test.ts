@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteAccount, EMAIL_REGEX } from '@/lib/accounts';
+
+const { $transaction } = vi.hoisted(() => ({ $transaction: vi.fn() }));
+
+vi.mock('@/lib/prisma', () => ({ prisma: { $transaction } }));
+
+describe('EMAIL_REGEX', () => {
+  it.each(['ana@example.com', 'ana.silva+pouf@mail.example.pt'])('accepts %s', (email) => {
+    expect(EMAIL_REGEX.test(email)).toBe(true);
+  });
+
+  it.each(['ana', 'ana@example', 'ana @example.com', '@example.com'])('rejects %j', (email) => {
+    expect(EMAIL_REGEX.test(email)).toBe(false);
+  });
+});
+
+describe('deleteAccount', () => {
+  // Every model method resolves to an empty result unless a test says otherwise
+  const models: Record<string, Record<string, ReturnType<typeof vi.fn>>> = {};
+  const tx = new Proxy(models, {
+    get: (target, model: string) => {
+      target[model] ??= new Proxy({}, {
+        get: (methods: Record<string, ReturnType<typeof vi.fn>>, method: string) => {
+          methods[method] ??= vi.fn().mockResolvedValue([]);
+          return methods[method];
+        }
+      });
+      return target[model];
+    }
+  });
+
+  beforeEach(() => {
+    for (const model of Object.keys(models)) delete models[model];
+    $transaction.mockImplementation((work: (client: typeof tx) => Promise<unknown>) => work(tx));
+  });
+
+  it('removes conversations and disposable products with everything on them', async () => {
+    tx.conversations.findMany.mockResolvedValue([{ Id: 'c1' }, { Id: 'c2' }]);
+    tx.products.findMany.mockResolvedValue([{ Id: 'p1' }]);
+
+    await deleteAccount('u1');
+
+    expect(tx.messages.deleteMany).toHaveBeenCalledWith({ where: { conversationId: { in: ['c1', 'c2'] } } });
+    expect(tx.conversations.deleteMany).toHaveBeenCalledWith({ where: { Id: { in: ['c1', 'c2'] } } });
+    expect(tx.products.findMany.mock.calls[0][0].where).toEqual({
+      creatorId: 'u1',
+      bids: { none: { status: 'accepted' } }
+    });
+    expect(tx.bids.deleteMany).toHaveBeenCalledWith({ where: { productId: { in: ['p1'] } } });
+    expect(tx.products.deleteMany).toHaveBeenCalledWith({ where: { Id: { in: ['p1'] } } });
+    expect(tx.userSessions.deleteMany).toHaveBeenCalledWith({ where: { userId: 'u1' } });
+  });
+
+  it('keeps the user row but scrubs it and makes it impossible to log into', async () => {
+    await deleteAccount('u1');
+
+    const { where, data } = tx.users.update.mock.calls[0][0];
+    expect(where).toEqual({ Id: 'u1' });
+    expect(data).toMatchObject({
+      fullName: 'Deleted user',
+      email: 'deleted-u1@deleted.invalid',
+      phoneNumber: null,
+      emailConfirmed: false,
+      resetPasswordTokenHash: null,
+      pendingEmail: null,
+      totpSecret: null,
+      totpEnabled: false
+    });
+    expect(data.passwordHash).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { hashPassword } from '@/lib/password';
+import { hashToken } from '@/lib/auth';
+import { OPEN_BID_STATUSES } from '@/lib/bids';
+import { removeStoredImages } from '@/lib/productImages';
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Stores the hash of a fresh reset token on the user and returns the raw
+ * token, which should only ever travel inside an email link.
+ */
+export async function issuePasswordResetToken(userId: string, ttlMs: number = PASSWORD_RESET_TTL_MS): Promise<string> {
+  const resetToken = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.users.update({
+    where: { Id: userId },
+    data: {
+      resetPasswordTokenHash: hashToken(resetToken),
+      resetPasswordExpiry: new Date(Date.now() + ttlMs)
+    }
+  });
+
+  return resetToken;
+}
+
+// Accounts created for someone else start with a password nobody knows
+export async function unusablePassword() {
+  return hashPassword(crypto.randomBytes(32).toString('hex'));
+}
+
+/**
+ * Closes an account. The Users row is kept but scrubbed of personal data,
+ * because accepted jobs still reference it from the other party's side.
+ * Everything that only matters to the departing user is removed:
+ * - conversations and their messages
+ * - open (pending or countered) bids they placed
+ * - products they created that never got an accepted bid, with all bids and images on them
+ * - sessions, recovery codes, login history and upholsterer applications
+ */
+export async function deleteAccount(userId: string) {
+  // Random credentials nobody knows, so the row can never be logged into again
+  const { passwordHash, passwordSalt } = await unusablePassword();
+
+  const removedImages = await prisma.$transaction(async (tx) => {
+    const conversations = await tx.conversations.findMany({
+      where: { userId },
+      select: { Id: true }
+    });
+    const conversationIds = conversations.map((conversation) => conversation.Id);
+    await tx.messages.deleteMany({ where: { conversationId: { in: conversationIds } } });
+    await tx.conversations.deleteMany({ where: { Id: { in: conversationIds } } });
+
+    await tx.bids.deleteMany({ where: { upholstererId: userId, status: { in: OPEN_BID_STATUSES } } });
+
+    const disposableProducts = await tx.products.findMany({
+      where: {
+        creatorId: userId,
+        bids: { none: { status: 'accepted' } }
+      },
+      select: { Id: true }
+    });
+    const productIds = disposableProducts.map((product) => product.Id);
+    const images = await tx.productImages.findMany({
+      where: { productId: { in: productIds } },
+      select: { storageKey: true, mimeType: true }
+    });
+    await tx.bids.deleteMany({ where: { productId: { in: productIds } } });
+    await tx.products.deleteMany({ where: { Id: { in: productIds } } });
+
+    await tx.userSessions.deleteMany({ where: { userId } });
+    await tx.userRecoveryCodes.deleteMany({ where: { userId } });
+    await tx.userLoginHistory.deleteMany({ where: { userId } });
+    await tx.upholstererApplications.deleteMany({ where: { userId } });
+    await tx.upholstererProfiles.deleteMany({ where: { userId } });
+
+    await tx.users.update({
+      where: { Id: userId },
+      data: {
+        fullName: 'Deleted user',
+        email: `deleted-${userId}@deleted.invalid`,
+        phoneNumber: null,
+        passwordHash,
+        passwordSalt,
+        emailConfirmed: false,
+        confirmationToken: null,
+        confirmationExpiry: null,
+        resetPasswordTokenHash: null,
+        resetPasswordExpiry: null,
+        pendingEmail: null,
+        pendingEmailTokenHash: null,
+        pendingEmailExpiry: null,
+        totpSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+        updatedAt: new Date()
+      }
+    });
+
+    return images;
+  });
+
+  // Files can't be rolled back, so they go only once the rows are gone for good
+  await removeStoredImages(removedImages);
+}
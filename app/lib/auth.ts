@@ -1,36 +1,54 @@
 import jwt from 'jsonwebtoken';
-import { NextRequest } from 'next/server';
+import crypto from 'crypto';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
+// Access tokens are short-lived; clients renew them through /api/auth/refresh.
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900');
+
 export function generateToken(userId: string, role: string): string {
-  return jwt.sign({ userId, role }, JWT_SECRET, { expiresIn: '7d' });
+  return jwt.sign({ userId, role }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    jwtid: crypto.randomUUID()
+  });
 }
 
 export function verifyToken(token: string): { userId: string; role: string } | null {
   try {
     return jwt.verify(token, JWT_SECRET) as { userId: string; role: string };
-  } catch (error) {
+  } catch {
     return null;
   }
 }
 
-export function extractTokenFromHeader(authHeader?: string): string | null {
-  if (!authHeader?.startsWith('Bearer ')) {
-    return null;
-  }
-  return authHeader.substring(7);
+// For opaque tokens that are stored server-side: only the digest hits the database
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
 }
 
-export function isUpholsterer(role: string): boolean {
-  return role === 'upholsterer';
+// Short-lived tokens for emailed links and multi-step flows. The purpose claim
+// keeps a token minted for one flow from being accepted by another; the
+// optional nonce ties a token to server state so it stops working once that changes.
+export function generatePurposeToken(subject: string, purpose: string, expiresInSeconds: number, nonce?: string): string {
+  return jwt.sign({ sub: subject, purpose, ...(nonce ? { nonce } : {}) }, JWT_SECRET, { expiresIn: expiresInSeconds });
 }
 
-export function isUpholstererRequest(request: NextRequest): boolean {
-  const authHeader = request.headers.get('authorization');
-  const token = extractTokenFromHeader(authHeader || '');
-  if (!token) return false;
+export function verifyPurposeToken(token: string, purpose: string): string | null {
+  return readPurposeToken(token, purpose)?.subject ?? null;
+}
 
-  const payload = verifyToken(token);
-  return payload?.role ? isUpholsterer(payload.role) : false;
+export function readPurposeToken(token: string, purpose: string): { subject: string; nonce?: string } | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { sub?: string; purpose?: string; nonce?: string };
+    return payload.purpose === purpose && payload.sub ? { subject: payload.sub, nonce: payload.nonce } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function extractTokenFromHeader(authHeader?: string): string | null {
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7);
 }
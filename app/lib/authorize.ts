@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { verifySession } from '@/lib/session';
+import { isTwoFactorRequired } from '@/lib/mfa';
+
+export type Role = 'client' | 'upholsterer' | 'admin';
+
+export interface Principal {
+  userId: string;
+  role: Role;
+  sessionId: string;
+  twoFactorEnabled: boolean;
+}
+
+export interface RouteContext<P> {
+  params: Promise<P>;
+}
+
+/**
+ * Decides whether the principal may act on the resource named by the route
+ * params. Returning a response (usually a 404) short-circuits the request.
+ */
+export type OwnershipCheck<P> = (principal: Principal, params: P) => Promise<boolean | Response>;
+
+export interface AuthPolicy<P> {
+  roles?: Role[];
+  ownership?: OwnershipCheck<P>;
+  // Admins pass ownership checks unless a route opts out
+  adminBypass?: boolean;
+  // Lets callers whose role requires 2FA reach the route before enrolling
+  allowWithoutTwoFactor?: boolean;
+  forbiddenMessage?: string;
+}
+
+type AuthedHandler<P> = (
+  request: NextRequest,
+  context: { principal: Principal; params: P }
+) => Promise<Response>;
+
+type OptionalAuthHandler<P> = (
+  request: NextRequest,
+  context: { principal: Principal | null; params: P }
+) => Promise<Response>;
+
+export function jsonError(message: string, status: number): NextResponse {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export function isAdmin(principal: Principal | null): boolean {
+  return principal?.role === 'admin';
+}
+
+export async function authenticate(request: NextRequest): Promise<Principal | null> {
+  const token = extractTokenFromHeader(request.headers.get('authorization') || '');
+  if (!token) return null;
+
+  const session = await verifySession(token);
+  if (!session) return null;
+
+  return {
+    userId: session.userId,
+    role: session.role as Role,
+    sessionId: session.sessionId,
+    twoFactorEnabled: session.twoFactorEnabled
+  };
+}
+
+/**
+ * Wraps a route handler with session authentication and an optional
+ * role/ownership policy. Missing or revoked credentials get a 401; an
+ * authenticated caller that fails the policy gets a 403.
+ */
+export function withAuth<P = Record<string, never>>(handler: AuthedHandler<P>, policy: AuthPolicy<P> = {}) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    try {
+      const hasToken = Boolean(extractTokenFromHeader(request.headers.get('authorization') || ''));
+      if (!hasToken) {
+        return jsonError('Authorization token required', 401);
+      }
+
+      const principal = await authenticate(request);
+      if (!principal) {
+        return jsonError('Invalid token', 401);
+      }
+
+      if (!policy.allowWithoutTwoFactor && !principal.twoFactorEnabled && await isTwoFactorRequired(principal.role)) {
+        return jsonError('Two-factor authentication must be enabled for this account', 403);
+      }
+
+      const forbiddenMessage = policy.forbiddenMessage || 'Insufficient permissions';
+
+      if (policy.roles && !policy.roles.includes(principal.role)) {
+        return jsonError(forbiddenMessage, 403);
+      }
+
+      const params = context?.params ? await context.params : ({} as P);
+
+      if (policy.ownership && !(policy.adminBypass !== false && isAdmin(principal))) {
+        const result = await policy.ownership(principal, params);
+        if (result instanceof Response) {
+          return result;
+        }
+        if (!result) {
+          return jsonError(forbiddenMessage, 403);
+        }
+      }
+
+      return await handler(request, { principal, params });
+    } catch (error) {
+      console.error('Error handling authenticated request:', error);
+      return jsonError('Internal server error', 500);
+    }
+  };
+}
+
+/**
+ * Like withAuth, but lets anonymous callers through with a null principal.
+ * A token that is present but invalid is still rejected.
+ */
+export function withOptionalAuth<P = Record<string, never>>(handler: OptionalAuthHandler<P>) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    try {
+      const hasToken = Boolean(extractTokenFromHeader(request.headers.get('authorization') || ''));
+      const principal = hasToken ? await authenticate(request) : null;
+      if (hasToken && !principal) {
+        return jsonError('Invalid token', 401);
+      }
+
+      const params = context?.params ? await context.params : ({} as P);
+      return await handler(request, { principal, params });
+    } catch (error) {
+      console.error('Error handling request:', error);
+      return jsonError('Internal server error', 500);
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { adjustmentLineItem, breakdownByKind, priceLineItems } from '@/lib/bidPricing';
+
+const decimal = (value: number) => ({ toNumber: () => value });
+
+describe('priceLineItems', () => {
+  it('multiplies quantities by unit prices and sums the lines', () => {
+    const result = priceLineItems([
+      { kind: 'fabric', description: 'Velvet', quantity: 2.5, unitPrice: 18.4 },
+      { kind: 'labor', quantity: 3, unitPrice: 25 },
+      { kind: 'delivery', unitPrice: 12.99 }
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      total: 133.99,
+      lineItems: [
+        { kind: 'fabric', description: 'Velvet', quantity: 2.5, unitPrice: 18.4, taxRate: null, amount: 46, sortOrder: 0 },
+        { kind: 'labor', description: null, quantity: 3, unitPrice: 25, taxRate: null, amount: 75, sortOrder: 1 },
+        { kind: 'delivery', description: null, quantity: 1, unitPrice: 12.99, taxRate: null, amount: 12.99, sortOrder: 2 }
+      ]
+    });
+  });
+
+  it('applies tax lines to the sum of the other lines, wherever they appear', () => {
+    const result = priceLineItems([
+      { kind: 'tax', description: 'VAT', taxRate: 20 },
+      { kind: 'fabric', quantity: 1, unitPrice: 100 },
+      { kind: 'filling', quantity: 1, unitPrice: 0.05 }
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.lineItems[0]).toMatchObject({ kind: 'tax', quantity: 1, unitPrice: null, taxRate: 20, amount: 20.01 });
+    expect(result.total).toBe(120.06);
+  });
+
+  it('computes in cents so totals have no floating point residue', () => {
+    const result = priceLineItems([
+      { kind: 'fabric', quantity: 3, unitPrice: 0.1 },
+      { kind: 'filling', quantity: 1, unitPrice: 0.2 }
+    ]);
+
+    expect(result).toMatchObject({ ok: true, total: 0.5 });
+  });
+
+  it.each([
+    [[], 'At least one line item is required'],
+    ['fabric', 'At least one line item is required'],
+    [Array.from({ length: 51 }, () => ({ kind: 'labor', unitPrice: 1 })), 'A bid can have at most 50 line items'],
+    [[{ kind: 'adjustment', unitPrice: 10 }], 'Line item 1: kind must be one of fabric, filling, labor, delivery, tax'],
+    [[{ kind: 'labor', unitPrice: 10, description: 'x'.repeat(256) }], 'Line item 1: description must be at most 255 characters'],
+    [[{ kind: 'labor', unitPrice: 10 }, { kind: 'tax', taxRate: 120 }], 'Line item 2: taxRate must be a percentage between 0 and 100'],
+    [[{ kind: 'labor', quantity: 0, unitPrice: 10 }], 'Line item 1: quantity must be a positive number with at most two decimals'],
+    [[{ kind: 'labor', quantity: 1.234, unitPrice: 10 }], 'Line item 1: quantity must be a positive number with at most two decimals'],
+    [[{ kind: 'labor', unitPrice: -5 }], 'Line item 1: unitPrice must be a non-negative amount with at most two decimals'],
+    [[{ kind: 'labor', unitPrice: '10' }], 'Line item 1: unitPrice must be a non-negative amount with at most two decimals'],
+    [[{ kind: 'labor', unitPrice: 0 }], 'The bid total must be greater than zero'],
+    [[{ kind: 'labor', quantity: 10000, unitPrice: 1000000 }], 'The bid total is too large']
+  ])('rejects %j', (input, error) => {
+    expect(priceLineItems(input)).toEqual({ ok: false, error });
+  });
+});
+
+describe('adjustmentLineItem', () => {
+  it('makes up the difference to the agreed total', () => {
+    expect(adjustmentLineItem(133.99, 120, 3)).toEqual({
+      kind: 'adjustment',
+      description: 'Negotiated adjustment',
+      quantity: 1,
+      unitPrice: -13.99,
+      taxRate: null,
+      amount: -13.99,
+      sortOrder: 3
+    });
+  });
+
+  it('is not needed when the totals already match', () => {
+    expect(adjustmentLineItem(0.1 + 0.2, 0.3, 0)).toBeNull();
+  });
+});
+
+describe('breakdownByKind', () => {
+  it('sums amounts per kind and fills in missing kinds', () => {
+    expect(breakdownByKind([
+      { kind: 'fabric', amount: decimal(10.1) },
+      { kind: 'fabric', amount: decimal(0.2) },
+      { kind: 'tax', amount: decimal(2.06) },
+      { kind: 'unknown', amount: decimal(99) }
+    ])).toEqual({ fabric: 10.3, filling: 0, labor: 0, delivery: 0, tax: 2.06, adjustment: 0 });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Line item kinds. Quantity means metres of fabric, units of foam or filling,
+ * labour hours or deliveries, and is multiplied by unitPrice. A tax line has
+ * a taxRate in percent applied to the sum of the other lines. Adjustment lines
+ * are only written by the server, e.g. when an upholsterer accepts a counter-offer.
+ */
+export const LINE_ITEM_KINDS = ['fabric', 'filling', 'labor', 'delivery', 'tax', 'adjustment'] as const;
+
+export type LineItemKind = typeof LINE_ITEM_KINDS[number];
+
+const CLIENT_LINE_ITEM_KINDS: LineItemKind[] = ['fabric', 'filling', 'labor', 'delivery', 'tax'];
+
+const MAX_LINE_ITEMS = 50;
+
+export interface PricedLineItem {
+  kind: LineItemKind;
+  description: string | null;
+  quantity: number;
+  unitPrice: number | null;
+  taxRate: number | null;
+  amount: number;
+  sortOrder: number;
+}
+
+export type PricingResult =
+  | { ok: true; lineItems: PricedLineItem[]; total: number }
+  | { ok: false; error: string };
+
+export const lineItemSelect = {
+  kind: true,
+  description: true,
+  quantity: true,
+  unitPrice: true,
+  taxRate: true,
+  amount: true,
+  sortOrder: true
+};
+
+function isMoney(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max &&
+    Number(value.toFixed(2)) === value;
+}
+
+// All arithmetic is done in cents so totals match what Decimal(10, 2) stores
+function toCents(value: number) {
+  return Math.round(value * 100);
+}
+
+/**
+ * Validates client-supplied line items and computes each line's amount and
+ * the bid total. The total is the only amount the bid will carry.
+ */
+export function priceLineItems(input: unknown): PricingResult {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { ok: false, error: 'At least one line item is required' };
+  }
+  if (input.length > MAX_LINE_ITEMS) {
+    return { ok: false, error: `A bid can have at most ${MAX_LINE_ITEMS} line items` };
+  }
+
+  const lineItems: PricedLineItem[] = [];
+  const taxRates: { index: number; rate: number }[] = [];
+  let subtotalCents = 0;
+
+  for (const [index, item] of input.entries()) {
+    const position = `Line item ${index + 1}`;
+    if (!item || !CLIENT_LINE_ITEM_KINDS.includes(item.kind)) {
+      return { ok: false, error: `${position}: kind must be one of ${CLIENT_LINE_ITEM_KINDS.join(', ')}` };
+    }
+    if (item.description != null && (typeof item.description !== 'string' || item.description.length > 255)) {
+      return { ok: false, error: `${position}: description must be at most 255 characters` };
+    }
+    const description = item.description ?? null;
+
+    if (item.kind === 'tax') {
+      if (!isMoney(item.taxRate, 100)) {
+        return { ok: false, error: `${position}: taxRate must be a percentage between 0 and 100` };
+      }
+      taxRates.push({ index: lineItems.length, rate: item.taxRate });
+      lineItems.push({ kind: 'tax', description, quantity: 1, unitPrice: null, taxRate: item.taxRate, amount: 0, sortOrder: index });
+      continue;
+    }
+
+    const quantity = item.quantity ?? 1;
+    if (!isMoney(quantity, 10000) || quantity === 0) {
+      return { ok: false, error: `${position}: quantity must be a positive number with at most two decimals` };
+    }
+    if (!isMoney(item.unitPrice, 1000000)) {
+      return { ok: false, error: `${position}: unitPrice must be a non-negative amount with at most two decimals` };
+    }
+
+    const amountCents = Math.round(quantity * toCents(item.unitPrice));
+    subtotalCents += amountCents;
+    lineItems.push({
+      kind: item.kind,
+      description,
+      quantity,
+      unitPrice: item.unitPrice,
+      taxRate: null,
+      amount: amountCents / 100,
+      sortOrder: index
+    });
+  }
+
+  let totalCents = subtotalCents;
+  for (const { index, rate } of taxRates) {
+    const taxCents = Math.round(subtotalCents * rate / 100);
+    lineItems[index].amount = taxCents / 100;
+    totalCents += taxCents;
+  }
+
+  if (totalCents <= 0) {
+    return { ok: false, error: 'The bid total must be greater than zero' };
+  }
+  if (totalCents >= 1e10) {
+    return { ok: false, error: 'The bid total is too large' };
+  }
+
+  return { ok: true, lineItems, total: totalCents / 100 };
+}
+
+/**
+ * The line that reconciles itemised prices with a negotiated total, e.g. a
+ * counter-offer the upholsterer accepted. Returns null when nothing differs.
+ */
+export function adjustmentLineItem(currentTotal: number, agreedTotal: number, sortOrder: number): PricedLineItem | null {
+  const differenceCents = toCents(agreedTotal) - toCents(currentTotal);
+  if (differenceCents === 0) return null;
+  return {
+    kind: 'adjustment',
+    description: 'Negotiated adjustment',
+    quantity: 1,
+    unitPrice: differenceCents / 100,
+    taxRate: null,
+    amount: differenceCents / 100,
+    sortOrder
+  };
+}
+
+interface StoredLineItem {
+  kind: string;
+  amount: { toNumber(): number };
+}
+
+/**
+ * Sums a bid's stored line items per kind, so bids can be compared column by
+ * column even when one of them leaves a kind out.
+ */
+export function breakdownByKind(lineItems: StoredLineItem[]): Record<LineItemKind, number> {
+  const breakdown = Object.fromEntries(LINE_ITEM_KINDS.map((kind) => [kind, 0])) as Record<LineItemKind, number>;
+  for (const item of lineItems) {
+    if ((LINE_ITEM_KINDS as readonly string[]).includes(item.kind)) {
+      const kind = item.kind as LineItemKind;
+      breakdown[kind] = (toCents(breakdown[kind]) + toCents(item.amount.toNumber())) / 100;
+    }
+  }
+  return breakdown;
+}
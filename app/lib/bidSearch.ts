@@ -0,0 +1,105 @@
+import { Prisma } from '@prisma/client';
+import { isAdmin, Principal } from '@/lib/authorize';
+import { decodeCursor, keysetAfter, PageCursor, parseDateParam, parseLimit, parseNumberParam, SortDirection } from '@/lib/pagination';
+
+export const BID_SORTS = ['newest', 'oldest', 'amount-asc', 'amount-desc'] as const;
+
+export type BidSort = typeof BID_SORTS[number];
+
+const SORT_ORDER: Record<BidSort, { field: 'createdAt' | 'amount'; direction: SortDirection }> = {
+  'newest': { field: 'createdAt', direction: 'desc' },
+  'oldest': { field: 'createdAt', direction: 'asc' },
+  'amount-asc': { field: 'amount', direction: 'asc' },
+  'amount-desc': { field: 'amount', direction: 'desc' }
+};
+
+export interface BidQuery {
+  where: Prisma.BidsWhereInput;
+  orderBy: Prisma.BidsOrderByWithRelationInput[];
+  limit: number;
+  sort: BidSort;
+}
+
+export type BidQueryResult = { ok: true; query: BidQuery } | { ok: false; error: string };
+
+/**
+ * Bids a principal may see: admins see every bid, upholsterers the bids they
+ * placed and clients the bids on their own products.
+ */
+export function bidVisibility(principal: Principal): Prisma.BidsWhereInput {
+  if (isAdmin(principal)) return {};
+  if (principal.role === 'upholsterer') return { upholstererId: principal.userId };
+  return { product: { creatorId: principal.userId } };
+}
+
+/**
+ * Turns the GET /api/bids query string into a Prisma query limited to what
+ * the principal may see. Returns an error message for the first parameter
+ * that can't be used.
+ */
+export function parseBidQuery(params: URLSearchParams, principal: Principal): BidQueryResult {
+  const filters: Prisma.BidsWhereInput[] = [bidVisibility(principal)];
+
+  const productId = params.get('productId');
+  if (productId) filters.push({ productId });
+
+  const upholstererId = params.get('upholstererId');
+  if (upholstererId) filters.push({ upholstererId });
+
+  const status = params.get('status');
+  if (status) filters.push({ status });
+
+  // Amounts are compared as stored, in each bid's own currency
+  const minAmount = parseNumberParam(params.get('minAmount'));
+  const maxAmount = parseNumberParam(params.get('maxAmount'));
+  if (minAmount === null || maxAmount === null) {
+    return { ok: false, error: 'minAmount and maxAmount must be non-negative numbers' };
+  }
+  if (minAmount !== undefined) filters.push({ amount: { gte: minAmount } });
+  if (maxAmount !== undefined) filters.push({ amount: { lte: maxAmount } });
+
+  const createdFrom = parseDateParam(params.get('createdFrom'));
+  const createdTo = parseDateParam(params.get('createdTo'));
+  if (createdFrom === null || createdTo === null) {
+    return { ok: false, error: 'createdFrom and createdTo must be ISO 8601 dates' };
+  }
+  if (createdFrom) filters.push({ createdAt: { gte: createdFrom } });
+  if (createdTo) filters.push({ createdAt: { lte: createdTo } });
+
+  const sort = (params.get('sort') || 'newest') as BidSort;
+  if (!BID_SORTS.includes(sort)) {
+    return { ok: false, error: `sort must be one of: ${BID_SORTS.join(', ')}` };
+  }
+
+  const limit = parseLimit(params.get('limit'));
+  if (limit === null) {
+    return { ok: false, error: 'limit must be a whole number between 1 and 100' };
+  }
+
+  const { field, direction } = SORT_ORDER[sort];
+  const cursorParam = params.get('cursor');
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam, sort);
+    if (!cursor || cursor.value === null || cursor.offset !== undefined) {
+      return { ok: false, error: 'Invalid cursor' };
+    }
+    const value = field === 'createdAt' ? new Date(cursor.value as string) : cursor.value;
+    filters.push(keysetAfter(field, direction, value, cursor.id as string) as Prisma.BidsWhereInput);
+  }
+
+  return {
+    ok: true,
+    query: {
+      where: { AND: filters },
+      orderBy: [{ [field]: direction }, { Id: direction }],
+      limit,
+      sort
+    }
+  };
+}
+
+export function bidCursor(query: BidQuery, last: { Id: string; createdAt: Date; amount: { toString(): string } }): PageCursor {
+  const { field } = SORT_ORDER[query.sort];
+  const value = field === 'amount' ? last.amount.toString() : last.createdAt.toISOString();
+  return { sort: query.sort, value, id: last.Id };
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { acceptBid, isPastDeadline, parseAmount, parseDeadline } from '@/lib/bids';
+
+const { findUnique, $transaction } = vi.hoisted(() => ({ findUnique: vi.fn(), $transaction: vi.fn() }));
+
+vi.mock('@/lib/prisma', () => ({ prisma: { bids: { findUnique }, $transaction } }));
+
+describe('parseAmount', () => {
+  it('accepts positive amounts with at most two decimals, as numbers or strings', () => {
+    expect(parseAmount(120)).toBe(120);
+    expect(parseAmount(0.01)).toBe(0.01);
+    expect(parseAmount('99.95')).toBe(99.95);
+  });
+
+  it.each([0, -5, 1.005, 1e8, Infinity, NaN, 'ten', null, undefined, {}])('rejects %j', (value) => {
+    expect(parseAmount(value)).toBeNull();
+  });
+});
+
+describe('parseDeadline', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('leaves the deadline alone when absent and clears it on null', () => {
+    expect(parseDeadline(undefined)).toEqual({ ok: true, value: undefined });
+    expect(parseDeadline(null)).toEqual({ ok: true, value: null });
+  });
+
+  it('accepts dates in the future', () => {
+    expect(parseDeadline('2026-02-01T12:00:00Z')).toEqual({ ok: true, value: new Date('2026-02-01T12:00:00Z') });
+  });
+
+  it.each(['2026-01-01T00:00:00Z', '2025-12-31', 'next week', 1767225600000])('rejects %j', (value) => {
+    expect(parseDeadline(value)).toEqual({ ok: false });
+  });
+});
+
+describe('isPastDeadline', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('treats the deadline itself as passed', () => {
+    expect(isPastDeadline(new Date('2025-12-31T23:59:59Z'), now)).toBe(true);
+    expect(isPastDeadline(now, now)).toBe(true);
+    expect(isPastDeadline(new Date('2026-01-01T00:00:01Z'), now)).toBe(false);
+  });
+
+  it('never passes without a deadline', () => {
+    expect(isPastDeadline(null, now)).toBe(false);
+  });
+});
+
+describe('acceptBid', () => {
+  const pendingBid = {
+    Id: 'b1',
+    status: 'pending',
+    validUntil: null,
+    amount: 120,
+    currency: 'EUR',
+    productId: 'p1',
+    upholstererId: 'u1',
+    product: { status: 'open-for-bids', creatorId: 'c1' }
+  };
+
+  const transactionWith = (counts: { accepted?: number; bid?: number; product?: number }) => {
+    const tx = {
+      bids: {
+        count: vi.fn().mockResolvedValue(counts.accepted ?? 0),
+        updateMany: vi.fn()
+          .mockResolvedValueOnce({ count: counts.bid ?? 1 })
+          .mockResolvedValue({ count: 0 })
+      },
+      products: { updateMany: vi.fn().mockResolvedValue({ count: counts.product ?? 1 }) }
+    };
+    $transaction.mockImplementation((work: (client: typeof tx) => Promise<unknown>) => work(tx));
+    return tx;
+  };
+
+  beforeEach(() => {
+    findUnique.mockReset();
+    $transaction.mockReset();
+  });
+
+  it('reports a missing bid', async () => {
+    findUnique.mockResolvedValue(null);
+
+    expect(await acceptBid('b1', 'c1')).toEqual({ accepted: false, status: 404, error: 'Bid not found' });
+  });
+
+  it('accepts only pending bids on products open for bids', async () => {
+    findUnique.mockResolvedValue({ ...pendingBid, status: 'rejected' });
+    expect(await acceptBid('b1', 'c1')).toEqual({
+      accepted: false,
+      status: 400,
+      error: 'Only pending bids can be accepted, this bid is rejected'
+    });
+
+    findUnique.mockResolvedValue({ ...pendingBid, product: { status: 'awarded', creatorId: 'c1' } });
+    expect(await acceptBid('b1', 'c1')).toEqual({ accepted: false, status: 400, error: 'Product is not open for bids' });
+    expect($transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses when another bid was accepted first', async () => {
+    findUnique.mockResolvedValue(pendingBid);
+    const tx = transactionWith({ accepted: 1 });
+
+    expect(await acceptBid('b1', 'c1')).toEqual({
+      accepted: false,
+      status: 409,
+      error: 'Another bid on this product has already been accepted'
+    });
+    expect(tx.bids.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses when the bid changed after it was read', async () => {
+    findUnique.mockResolvedValue(pendingBid);
+    const tx = transactionWith({ bid: 0 });
+
+    expect(await acceptBid('b1', 'c1')).toEqual({ accepted: false, status: 409, error: 'Bid is no longer pending' });
+    expect(tx.products.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses when the product was awarded or closed in the meantime', async () => {
+    findUnique.mockResolvedValue(pendingBid);
+    transactionWith({ product: 0 });
+
+    expect(await acceptBid('b1', 'c1')).toEqual({ accepted: false, status: 409, error: 'Product is no longer open for bids' });
+  });
+});
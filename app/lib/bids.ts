@@ -0,0 +1,219 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { applyTransition } from '@/lib/productLifecycle';
+import { createOrderForBid } from '@/lib/orders';
+
+/**
+ * Bid statuses. A client counter-offer moves a pending bid to countered until
+ * the upholsterer accepts the counter or revises their own amount, which
+ * both bring it back to pending. Open bids end up accepted or rejected by the
+ * client, withdrawn by the upholsterer, or expired once validUntil passes.
+ */
+export const OPEN_BID_STATUSES = ['pending', 'countered'];
+
+/**
+ * Parses an optional deadline from a request body. Undefined means "leave
+ * unchanged" and null clears it; anything else has to be a date in the future.
+ */
+export function parseDeadline(value: unknown): { ok: true; value: Date | null | undefined } | { ok: false } {
+  if (value === undefined || value === null) {
+    return { ok: true, value };
+  }
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+    return { ok: false };
+  }
+  return { ok: true, value: date };
+}
+
+export function isPastDeadline(deadline: Date | null, now: Date = new Date()): boolean {
+  return deadline !== null && deadline.getTime() <= now.getTime();
+}
+
+// Entries in a bid's negotiation timeline
+export type BidRevisionKind = 'initial' | 'revision' | 'counter-offer' | 'counter-accepted';
+
+export const revisionTimelineSelect = {
+  revisionNumber: true,
+  kind: true,
+  amount: true,
+  notes: true,
+  createdAt: true,
+  author: {
+    select: {
+      Id: true,
+      fullName: true
+    }
+  }
+};
+
+// Positive money amounts with at most two decimals, as stored in Decimal(10, 2)
+export function parseAmount(value: unknown): number | null {
+  const amount = typeof value === 'string' ? Number(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0 || amount >= 1e8) {
+    return null;
+  }
+  return Number(amount.toFixed(2)) === amount ? amount : null;
+}
+
+/**
+ * Appends an entry to the bid's timeline. Revision numbers are unique per
+ * bid, so two concurrent writers cannot both claim the same number.
+ */
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  bidId: string,
+  kind: BidRevisionKind,
+  authorId: string,
+  amount: Prisma.Decimal | number,
+  notes?: string | null
+) {
+  const latest = await tx.bidRevisions.aggregate({
+    where: { bidId },
+    _max: { revisionNumber: true }
+  });
+
+  return tx.bidRevisions.create({
+    data: {
+      bidId,
+      revisionNumber: (latest._max.revisionNumber ?? 0) + 1,
+      kind,
+      authorId,
+      amount,
+      notes
+    }
+  });
+}
+
+export type AcceptBidResult =
+  | { accepted: true; productId: string }
+  | { accepted: false; status: 400 | 404 | 409; error: string };
+
+// Thrown inside the transaction so every write made so far is rolled back
+class AcceptanceConflict extends Error {}
+
+/**
+ * Accepts a pending bid in one transaction: the bid becomes accepted, every
+ * other open bid on the product is rejected, and the product records the
+ * upholsterer as its manufacturer and moves from open-for-bids to awarded,
+ * and the order with its payment milestones is created.
+ *
+ * Each write is conditional on the state read at the start, so a competing
+ * acceptance either blocks on the row lock and then matches nothing, or has
+ * already committed; either way the loser rolls back with a 409.
+ */
+export async function acceptBid(bidId: string, acceptedById: string): Promise<AcceptBidResult> {
+  const bid = await prisma.bids.findUnique({
+    where: { Id: bidId },
+    select: {
+      Id: true,
+      status: true,
+      validUntil: true,
+      amount: true,
+      currency: true,
+      productId: true,
+      upholstererId: true,
+      product: { select: { status: true, creatorId: true } }
+    }
+  });
+
+  if (!bid) {
+    return { accepted: false, status: 404, error: 'Bid not found' };
+  }
+
+  if (bid.status !== 'pending') {
+    return { accepted: false, status: 400, error: `Only pending bids can be accepted, this bid is ${bid.status}` };
+  }
+
+  // The scheduler may not have caught up with the expiry yet
+  if (isPastDeadline(bid.validUntil)) {
+    return { accepted: false, status: 400, error: 'This bid has expired' };
+  }
+
+  if (bid.product.status !== 'open-for-bids') {
+    return { accepted: false, status: 400, error: 'Product is not open for bids' };
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const alreadyAccepted = await tx.bids.count({
+        where: { productId: bid.productId, status: 'accepted' }
+      });
+      if (alreadyAccepted > 0) {
+        throw new AcceptanceConflict('Another bid on this product has already been accepted');
+      }
+
+      const { count } = await tx.bids.updateMany({
+        where: { Id: bidId, status: 'pending' },
+        data: { status: 'accepted', updatedAt: new Date() }
+      });
+      if (count === 0) {
+        throw new AcceptanceConflict('Bid is no longer pending');
+      }
+
+      await tx.bids.updateMany({
+        where: { productId: bid.productId, Id: { not: bidId }, status: { in: OPEN_BID_STATUSES } },
+        data: { status: 'rejected', updatedAt: new Date() }
+      });
+
+      const assigned = await tx.products.updateMany({
+        where: { Id: bid.productId, status: 'open-for-bids', manufacturerId: null },
+        data: { manufacturerId: bid.upholstererId }
+      });
+      const awarded = assigned.count > 0 &&
+        await applyTransition(tx, bid.productId, 'open-for-bids', 'awarded', acceptedById, 'Bid accepted');
+      if (!awarded) {
+        throw new AcceptanceConflict('Product is no longer open for bids');
+      }
+
+      await createOrderForBid(tx, bid, bid.product.creatorId);
+    });
+  } catch (error) {
+    if (error instanceof AcceptanceConflict) {
+      return { accepted: false, status: 409, error: error.message };
+    }
+    throw error;
+  }
+
+  return { accepted: true, productId: bid.productId };
+}
+
+/**
+ * Scheduler job: marks open bids whose validUntil has passed as expired.
+ */
+export async function expireStaleBids(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.bids.updateMany({
+    where: {
+      status: { in: OPEN_BID_STATUSES },
+      validUntil: { lte: now }
+    },
+    data: { status: 'expired', updatedAt: now }
+  });
+  return count;
+}
+
+/**
+ * Scheduler job: once a product's bidding deadline has passed, new bids are
+ * refused on write. Products that reach the deadline without a single open
+ * bid go back to draft so the creator can set a new deadline and reopen;
+ * products with bids stay open so the creator can still choose one.
+ */
+export async function closeExpiredBidding(now: Date = new Date()): Promise<number> {
+  const products = await prisma.products.findMany({
+    where: {
+      status: 'open-for-bids',
+      biddingClosesAt: { lte: now },
+      bids: { none: { status: { in: OPEN_BID_STATUSES } } }
+    },
+    select: { Id: true }
+  });
+
+  let closed = 0;
+  for (const product of products) {
+    const changed = await prisma.$transaction((tx) =>
+      applyTransition(tx, product.Id, 'open-for-bids', 'draft', null, 'Bidding closed without any open bids')
+    );
+    if (changed) closed++;
+  }
+  return closed;
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hashToken } from '@/lib/auth';
+import { isAdmin, jsonError, Principal } from '@/lib/authorize';
+
+// Anonymous visitors prove access to their conversation with this header
+export const CONVERSATION_TOKEN_HEADER = 'x-conversation-token';
+
+// Backend services (e.g. the assistant) authenticate with CONVERSATION_SERVICE_KEY
+export const SERVICE_KEY_HEADER = 'x-service-key';
+
+// Everything but the access token hash, which never leaves the server
+export const conversationSelect = {
+  Id: true,
+  userId: true,
+  userName: true,
+  userPhone: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+function safeEqual(a: string, b: string) {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * Creates the access token for an anonymous conversation. Only the hash is
+ * stored; the raw token is returned to the visitor once, at creation.
+ */
+export function issueConversationToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, hash: hashToken(token) };
+}
+
+export function isConversationService(request: NextRequest): boolean {
+  const expected = process.env.CONVERSATION_SERVICE_KEY;
+  const provided = request.headers.get(SERVICE_KEY_HEADER);
+  return Boolean(expected && provided && safeEqual(provided, expected));
+}
+
+// Messages that don't come from the user (assistant replies) may only be written by the server or an admin
+export function canWriteNonUserMessages(request: NextRequest, principal: Principal | null): boolean {
+  return isConversationService(request) || isAdmin(principal);
+}
+
+export type ConversationAccess = { ok: true } | { ok: false; response: Response };
+
+/**
+ * Checks that the caller may read or change a conversation. The server and
+ * admins may access any conversation; otherwise a conversation that belongs
+ * to a user is only open to that user, and an anonymous one to whoever holds
+ * its access token. Anonymous conversations created before access tokens
+ * existed have no token and stay closed.
+ */
+export async function authorizeConversation(
+  request: NextRequest,
+  principal: Principal | null,
+  conversationId: string
+): Promise<ConversationAccess> {
+  const conversation = await prisma.conversations.findUnique({
+    where: { Id: conversationId },
+    select: { userId: true, accessTokenHash: true }
+  });
+
+  if (!conversation) {
+    return { ok: false, response: jsonError('Conversation not found', 404) };
+  }
+  if (isConversationService(request) || isAdmin(principal)) {
+    return { ok: true };
+  }
+
+  if (conversation.userId) {
+    if (!principal) return { ok: false, response: jsonError('Authentication required', 401) };
+    return conversation.userId === principal.userId
+      ? { ok: true }
+      : { ok: false, response: jsonError('Not authorized to access this conversation', 403) };
+  }
+
+  const token = request.headers.get(CONVERSATION_TOKEN_HEADER);
+  if (!token) {
+    return { ok: false, response: jsonError('Conversation access token required', 401) };
+  }
+  return conversation.accessTokenHash && safeEqual(hashToken(token), conversation.accessTokenHash)
+    ? { ok: true }
+    : { ok: false, response: jsonError('Not authorized to access this conversation', 403) };
+}
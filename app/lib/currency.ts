@@ -0,0 +1,84 @@
+import { prisma } from '@/lib/prisma';
+import { Principal } from '@/lib/authorize';
+
+/**
+ * The platform base currency. Exchange rates are stored as units of a
+ * currency per one unit of this one, so it always has a rate of 1.
+ */
+export const DEFAULT_CURRENCY = (process.env.DEFAULT_CURRENCY || 'USD').toUpperCase();
+
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+
+const RATE_CACHE_TTL_MS = 60 * 1000;
+
+let rateCache: { loadedAt: number; rates: Map<string, number> } | null = null;
+
+type Amount = number | { toNumber(): number };
+
+export interface ConvertedAmount {
+  amount: number;
+  currency: string;
+  rate: number;
+}
+
+export function parseCurrency(value: unknown, fallback: string = DEFAULT_CURRENCY): string | null {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'string') return null;
+  const currency = value.toUpperCase();
+  return CURRENCY_REGEX.test(currency) ? currency : null;
+}
+
+export async function getExchangeRates(): Promise<Map<string, number>> {
+  if (!rateCache || Date.now() - rateCache.loadedAt > RATE_CACHE_TTL_MS) {
+    const rows = await prisma.exchangeRates.findMany();
+    const rates = new Map(rows.map((row) => [row.currency, row.rate.toNumber()]));
+    rates.set(DEFAULT_CURRENCY, 1);
+    rateCache = { loadedAt: Date.now(), rates };
+  }
+  return rateCache.rates;
+}
+
+export function clearExchangeRateCache() {
+  rateCache = null;
+}
+
+/** Rate to multiply an amount in `from` by to get `to`, or null if either currency has no rate. */
+export function exchangeRate(rates: Map<string, number>, from: string, to: string): number | null {
+  if (from === to) return 1;
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (!fromRate || !toRate) return null;
+  return toRate / fromRate;
+}
+
+export function convertAmount(
+  rates: Map<string, number>,
+  amount: Amount | null,
+  from: string,
+  to: string
+): ConvertedAmount | null {
+  if (amount === null) return null;
+  const rate = exchangeRate(rates, from, to);
+  if (rate === null) return null;
+  const value = typeof amount === 'number' ? amount : amount.toNumber();
+  return { amount: Math.round(value * rate * 100) / 100, currency: to, rate: Number(rate.toFixed(8)) };
+}
+
+/**
+ * Currency amounts are shown in: an explicit ?currency= query parameter,
+ * then the caller's preferred currency, then the platform currency.
+ */
+export async function resolveDisplayCurrency(request: Request, principal: Principal | null): Promise<string | null> {
+  const requested = new URL(request.url).searchParams.get('currency');
+  if (requested) return parseCurrency(requested);
+
+  if (principal) {
+    const user = await prisma.users.findUnique({
+      where: { Id: principal.userId },
+      select: { preferredCurrency: true }
+    });
+    if (user?.preferredCurrency) return user.preferredCurrency;
+  }
+
+  return DEFAULT_CURRENCY;
+}
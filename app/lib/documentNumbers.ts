@@ -0,0 +1,23 @@
+import { Prisma } from '@prisma/client';
+
+export type DocumentPrefix = 'ORD' | 'INV' | 'QUO';
+
+/**
+ * Issues the next number in a yearly series, e.g. INV-2026-000042. The
+ * increment happens in the database, so concurrent callers never receive the
+ * same number; gaps are possible when the surrounding transaction rolls back.
+ */
+export async function nextDocumentNumber(
+  tx: Prisma.TransactionClient,
+  prefix: DocumentPrefix,
+  now: Date = new Date()
+): Promise<string> {
+  const year = now.getUTCFullYear();
+  const sequence = await tx.documentSequences.upsert({
+    where: { name: `${prefix}-${year}` },
+    create: { name: `${prefix}-${year}`, lastValue: 1 },
+    update: { lastValue: { increment: 1 } }
+  });
+
+  return `${prefix}-${year}-${String(sequence.lastValue).padStart(6, '0')}`;
+}
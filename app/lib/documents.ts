@@ -0,0 +1,400 @@
+import { prisma } from '@/lib/prisma';
+import { PdfDocument, PAGE_HEIGHT, PAGE_WIDTH, wrapText } from '@/lib/pdf';
+import { nextDocumentNumber } from '@/lib/documentNumbers';
+import { summarizeLedger } from '@/lib/orders';
+import { formatSpec, productSpecSelect } from '@/lib/productSpecs';
+
+export interface DocumentParty {
+  heading: string;
+  name: string;
+  lines: (string | null | undefined)[];
+}
+
+export interface DocumentLineItem {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+}
+
+export interface DocumentSection {
+  heading: string;
+  rows: [string, string][];
+  // Free text such as notes, wrapped to the page width below the rows
+  text?: string;
+}
+
+export interface BusinessDocument {
+  title: string;
+  number: string;
+  issuedAt: Date;
+  details: [string, string][];
+  parties: DocumentParty[];
+  product: { title: string; description: string | null };
+  lineItems: DocumentLineItem[];
+  totals: [string, string][];
+  sections: DocumentSection[];
+  footer: string;
+}
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const RIGHT_EDGE = PAGE_WIDTH - MARGIN;
+const BOTTOM_LIMIT = PAGE_HEIGHT - 70;
+
+// Right edges of the numeric columns in the line item table
+const QUANTITY_COLUMN = 350;
+const UNIT_PRICE_COLUMN = 450;
+
+export function formatMoney(amount: number | { toNumber(): number }, currency: string) {
+  const value = typeof amount === 'number' ? amount : amount.toNumber();
+  return `${currency} ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Lays out a quote or invoice: header with the document number, the two
+ * parties, the product, an itemised table with totals, then free-form
+ * sections such as a payment schedule. Content flows onto new pages as needed.
+ */
+export function renderBusinessDocument(document: BusinessDocument): Buffer {
+  const pdf = new PdfDocument();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > BOTTOM_LIMIT) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const paragraph = (text: string, size: number = 10) => {
+    for (const line of wrapText(text, CONTENT_WIDTH, size)) {
+      ensureSpace(size + 4);
+      pdf.text(MARGIN, y, line, { size });
+      y += size + 4;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 12;
+    pdf.text(MARGIN, y, text, { size: 12, font: 'bold' });
+    y += 6;
+    pdf.line(MARGIN, y, RIGHT_EDGE, y);
+    y += 14;
+  };
+
+  // Header
+  pdf.text(MARGIN, y + 12, document.title.toUpperCase(), { size: 22, font: 'bold' });
+  pdf.text(RIGHT_EDGE, y + 4, document.number, { size: 11, font: 'bold', align: 'right' });
+  pdf.text(RIGHT_EDGE, y + 18, `Issued ${formatDate(document.issuedAt)}`, { size: 9, align: 'right' });
+  y += 40;
+  for (const [label, value] of document.details) {
+    pdf.text(RIGHT_EDGE, y, `${label}: ${value}`, { size: 9, align: 'right' });
+    y += 13;
+  }
+  y += 10;
+
+  // Parties side by side
+  const columnWidth = CONTENT_WIDTH / document.parties.length;
+  const partiesTop = y;
+  let partiesBottom = y;
+  document.parties.forEach((party, index) => {
+    const x = MARGIN + index * columnWidth;
+    let partyY = partiesTop;
+    pdf.text(x, partyY, party.heading.toUpperCase(), { size: 8, font: 'bold' });
+    partyY += 14;
+    pdf.text(x, partyY, party.name, { size: 11, font: 'bold' });
+    partyY += 14;
+    for (const line of party.lines) {
+      if (!line) continue;
+      pdf.text(x, partyY, line, { size: 9 });
+      partyY += 12;
+    }
+    partiesBottom = Math.max(partiesBottom, partyY);
+  });
+  y = partiesBottom;
+
+  heading('Product');
+  ensureSpace(16);
+  pdf.text(MARGIN, y, document.product.title, { size: 11, font: 'bold' });
+  y += 16;
+  if (document.product.description) {
+    paragraph(document.product.description, 9);
+  }
+
+  heading('Items');
+  const tableHeader = () => {
+    pdf.text(MARGIN, y, 'Description', { size: 9, font: 'bold' });
+    pdf.text(QUANTITY_COLUMN, y, 'Qty', { size: 9, font: 'bold', align: 'right' });
+    pdf.text(UNIT_PRICE_COLUMN, y, 'Unit price', { size: 9, font: 'bold', align: 'right' });
+    pdf.text(RIGHT_EDGE, y, 'Amount', { size: 9, font: 'bold', align: 'right' });
+    y += 6;
+    pdf.line(MARGIN, y, RIGHT_EDGE, y, 0.25);
+    y += 12;
+  };
+  tableHeader();
+  for (const item of document.lineItems) {
+    const descriptionLines = wrapText(item.description, QUANTITY_COLUMN - MARGIN - 50, 9);
+    if (y + descriptionLines.length * 12 > BOTTOM_LIMIT) {
+      pdf.addPage();
+      y = MARGIN;
+      tableHeader();
+    }
+    pdf.text(QUANTITY_COLUMN, y, item.quantity, { size: 9, align: 'right' });
+    pdf.text(UNIT_PRICE_COLUMN, y, item.unitPrice, { size: 9, align: 'right' });
+    pdf.text(RIGHT_EDGE, y, item.amount, { size: 9, align: 'right' });
+    for (const line of descriptionLines) {
+      pdf.text(MARGIN, y, line, { size: 9 });
+      y += 12;
+    }
+  }
+
+  ensureSpace(20 + document.totals.length * 16);
+  pdf.line(UNIT_PRICE_COLUMN - 100, y, RIGHT_EDGE, y, 0.25);
+  y += 14;
+  document.totals.forEach(([label, value], index) => {
+    const font = index === document.totals.length - 1 ? 'bold' : 'regular';
+    pdf.text(UNIT_PRICE_COLUMN, y, label, { size: 10, font, align: 'right' });
+    pdf.text(RIGHT_EDGE, y, value, { size: 10, font, align: 'right' });
+    y += 16;
+  });
+
+  for (const section of document.sections) {
+    heading(section.heading);
+    for (const [label, value] of section.rows) {
+      ensureSpace(14);
+      pdf.text(MARGIN, y, label, { size: 9 });
+      pdf.text(RIGHT_EDGE, y, value, { size: 9, align: 'right' });
+      y += 14;
+    }
+    if (section.text) {
+      paragraph(section.text, 9);
+    }
+  }
+
+  ensureSpace(30);
+  y += 16;
+  paragraph(document.footer, 8);
+
+  return pdf.toBuffer();
+}
+
+const LINE_ITEM_LABELS: Record<string, string> = {
+  fabric: 'Fabric',
+  filling: 'Foam / filling',
+  labor: 'Labour (hours)',
+  delivery: 'Delivery',
+  tax: 'Tax',
+  adjustment: 'Adjustment'
+};
+
+const partySelect = {
+  fullName: true,
+  email: true,
+  phoneNumber: true
+};
+
+const documentBidSelect = {
+  Id: true,
+  amount: true,
+  currency: true,
+  notes: true,
+  validUntil: true,
+  quoteNumber: true,
+  product: {
+    select: {
+      title: true,
+      description: true,
+      creator: { select: partySelect },
+      spec: { select: productSpecSelect }
+    }
+  },
+  upholsterer: {
+    select: {
+      ...partySelect,
+      upholstererProfile: { select: { workshopLocation: true } }
+    }
+  },
+  lineItems: {
+    orderBy: { sortOrder: 'asc' as const }
+  }
+};
+
+type DocumentBid = NonNullable<Awaited<ReturnType<typeof findDocumentBid>>>;
+
+function findDocumentBid(bidId: string) {
+  return prisma.bids.findUnique({
+    where: { Id: bidId },
+    select: documentBidSelect
+  });
+}
+
+function upholstererParty(bid: DocumentBid): DocumentParty {
+  return {
+    heading: 'Upholsterer',
+    name: bid.upholsterer.fullName,
+    lines: [bid.upholsterer.upholstererProfile?.workshopLocation, bid.upholsterer.email, bid.upholsterer.phoneNumber]
+  };
+}
+
+function clientParty(bid: DocumentBid): DocumentParty {
+  const creator = bid.product.creator;
+  return { heading: 'Client', name: creator.fullName, lines: [creator.email, creator.phoneNumber] };
+}
+
+function documentLineItems(bid: DocumentBid): DocumentLineItem[] {
+  // Bids from before itemised pricing carry only a total
+  if (bid.lineItems.length === 0) {
+    return [{ description: 'Upholstery work', quantity: '1', unitPrice: formatMoney(bid.amount, bid.currency), amount: formatMoney(bid.amount, bid.currency) }];
+  }
+
+  return bid.lineItems.map((item) => {
+    const label = LINE_ITEM_LABELS[item.kind] ?? item.kind;
+    return {
+      description: item.description ? `${label}: ${item.description}` : label,
+      quantity: item.kind === 'tax' ? `${item.taxRate?.toNumber() ?? 0}%` : String(item.quantity.toNumber()),
+      unitPrice: item.unitPrice ? formatMoney(item.unitPrice, bid.currency) : '',
+      amount: formatMoney(item.amount, bid.currency)
+    };
+  });
+}
+
+function specSection(bid: DocumentBid): DocumentSection[] {
+  const spec = formatSpec(bid.product.spec);
+  if (!spec) return [];
+
+  const size = spec.shape === 'square'
+    ? `${spec.widthCm} x ${spec.depthCm} x ${spec.heightCm} cm`
+    : `${spec.diameterCm} cm diameter, ${spec.heightCm} cm high`;
+  return [{
+    heading: 'Specification',
+    rows: [
+      ['Shape and size', `${spec.shape}, ${size}`],
+      ['Fabric', `${spec.fabricType}, ${spec.fabricColour}`],
+      ['Filling', `${spec.fillingType}, ${spec.firmness}`],
+      ['Piping / handles', `${spec.piping ? 'yes' : 'no'} / ${spec.handles}`],
+      ['Quantity', String(spec.quantity)]
+    ]
+  }];
+}
+
+/**
+ * Gives a record its document number the first time one is needed. The
+ * conditional update means concurrent first downloads agree on one number.
+ */
+async function ensureNumber(
+  current: string | null,
+  prefix: 'QUO' | 'INV',
+  assign: (number: string) => Promise<number>,
+  reload: () => Promise<string | null>
+): Promise<string> {
+  if (current) return current;
+
+  const number = await prisma.$transaction((tx) => nextDocumentNumber(tx, prefix));
+  const assigned = await assign(number);
+  return assigned > 0 ? number : (await reload()) ?? number;
+}
+
+/**
+ * Renders the quote for a bid. The number stays the same for the bid and
+ * gets a revision suffix, so every negotiated version has its own reference.
+ */
+export async function renderBidQuote(bidId: string): Promise<{ number: string; pdf: Buffer } | null> {
+  const bid = await findDocumentBid(bidId);
+  if (!bid) return null;
+
+  const quoteNumber = await ensureNumber(
+    bid.quoteNumber,
+    'QUO',
+    async (number) => (await prisma.bids.updateMany({ where: { Id: bidId, quoteNumber: null }, data: { quoteNumber: number } })).count,
+    async () => (await prisma.bids.findUnique({ where: { Id: bidId }, select: { quoteNumber: true } }))?.quoteNumber ?? null
+  );
+  const latestRevision = await prisma.bidRevisions.aggregate({
+    where: { bidId },
+    _max: { revisionNumber: true }
+  });
+  const number = `${quoteNumber}-R${latestRevision._max.revisionNumber ?? 1}`;
+
+  const details: [string, string][] = [['Currency', bid.currency]];
+  if (bid.validUntil) details.push(['Valid until', formatDate(bid.validUntil)]);
+
+  const pdf = renderBusinessDocument({
+    title: 'Quote',
+    number,
+    issuedAt: new Date(),
+    details,
+    parties: [upholstererParty(bid), clientParty(bid)],
+    product: bid.product,
+    lineItems: documentLineItems(bid),
+    totals: [['Total', formatMoney(bid.amount, bid.currency)]],
+    sections: [...specSection(bid), ...(bid.notes ? [{ heading: 'Notes', rows: [], text: bid.notes }] : [])],
+    footer: `Quote ${number}. Prices are valid until the date shown, or until the bid is withdrawn or revised.`
+  });
+
+  return { number, pdf };
+}
+
+/**
+ * Renders the invoice for an order: the accepted bid's items, the payment
+ * schedule with each milestone's invoice number, and the balance from the ledger.
+ */
+export async function renderOrderInvoice(orderId: string): Promise<{ number: string; pdf: Buffer } | null> {
+  const order = await prisma.orders.findUnique({
+    where: { Id: orderId },
+    include: {
+      bid: { select: documentBidSelect },
+      milestones: { orderBy: { sequence: 'asc' } },
+      ledgerEntries: { select: { entryType: true, amount: true } }
+    }
+  });
+  if (!order) return null;
+
+  const number = await ensureNumber(
+    order.invoiceNumber,
+    'INV',
+    async (value) => (await prisma.orders.updateMany({ where: { Id: orderId, invoiceNumber: null }, data: { invoiceNumber: value } })).count,
+    async () => (await prisma.orders.findUnique({ where: { Id: orderId }, select: { invoiceNumber: true } }))?.invoiceNumber ?? null
+  );
+
+  const summary = summarizeLedger(order.ledgerEntries);
+  const money = (amount: number | { toNumber(): number }) => formatMoney(amount, order.currency);
+
+  const pdf = renderBusinessDocument({
+    title: 'Invoice',
+    number,
+    issuedAt: new Date(),
+    details: [['Order', order.orderNumber], ['Order date', formatDate(order.createdAt)], ['Status', order.status]],
+    parties: [upholstererParty(order.bid), clientParty(order.bid)],
+    product: order.bid.product,
+    lineItems: documentLineItems(order.bid),
+    totals: [
+      ['Paid', money(summary.paid - summary.refunded)],
+      ['Total', money(order.totalAmount)]
+    ],
+    sections: [
+      ...specSection(order.bid),
+      {
+        heading: 'Payment schedule',
+        rows: order.milestones.map((milestone) => [
+          `${milestone.invoiceNumber ?? 'Not yet invoiced'}: ${milestone.kind} (${milestone.status})`,
+          money(milestone.amount)
+        ])
+      },
+      {
+        heading: 'Balance',
+        rows: [
+          ['Invoiced to date', money(summary.charged)],
+          ['Balance due', money(summary.balanceDue)]
+        ]
+      }
+    ],
+    footer: `Invoice ${number} for order ${order.orderNumber}. Please quote the milestone invoice number with each payment.`
+  });
+
+  return { number, pdf };
+}
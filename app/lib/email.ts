@@ -32,6 +32,8 @@ export async function sendEmail({ to, subject, html }: EmailData) {
   }
 }
 
+export const CONFIRMATION_TOKEN_TTL_HOURS = 24;
+
 export function generateConfirmationEmail(email: string, token: string) {
   const confirmationUrl = `${process.env.NEXT_PUBLIC_APP_URL}/verify-email?token=${token}`;
   
@@ -42,7 +44,104 @@ export function generateConfirmationEmail(email: string, token: string) {
       <h1>Welcome to Poufmaker!</h1>
       <p>Please confirm your email address by clicking the link below:</p>
       <a href="${confirmationUrl}">Confirm Email</a>
+      <p>This link will expire in ${CONFIRMATION_TOKEN_TTL_HOURS} hours.</p>
       <p>If you didn't request this email, please ignore it.</p>
     `
   };
 }
+
+export function generateAccountLockedEmail(email: string, token: string) {
+  const unlockUrl = `${process.env.NEXT_PUBLIC_APP_URL}/unlock-account?token=${token}`;
+
+  return {
+    to: email,
+    subject: 'Your account has been temporarily locked',
+    html: `
+      <h2>Account Locked</h2>
+      <p>We locked your Poufmaker account after several failed sign-in attempts.</p>
+      <p>If this was you, you can unlock it right away:</p>
+      <a href="${unlockUrl}">Unlock Account</a>
+      <p>Otherwise the lock will lift on its own shortly. If you didn't try to sign in, consider resetting your password.</p>
+    `
+  };
+}
+
+export function generatePasswordResetEmail(email: string, token: string) {
+  const resetLink = `${process.env.NEXT_PUBLIC_APP_URL}/reset-password?token=${token}`;
+
+  return {
+    to: email,
+    subject: 'Password Reset Request',
+    html: `
+      <h2>Password Reset Request</h2>
+      <p>You have requested to reset your password. Click the link below to proceed:</p>
+      <p><a href="${resetLink}">Reset Password</a></p>
+      <p>This link will expire in 1 hour and can only be used once.</p>
+      <p>If you didn't request this, please ignore this email.</p>
+    `
+  };
+}
+
+export function generatePasswordChangedEmail(email: string) {
+  return {
+    to: email,
+    subject: 'Your password was changed',
+    html: `
+      <h2>Password Changed</h2>
+      <p>The password for your Poufmaker account was just changed and all active sessions were signed out.</p>
+      <p>If you didn't make this change, reset your password immediately and contact support.</p>
+    `
+  };
+}
+
+export function generateEmailChangeEmail(newEmail: string, token: string) {
+  const confirmationUrl = `${process.env.NEXT_PUBLIC_APP_URL}/confirm-email-change?token=${token}`;
+
+  return {
+    to: newEmail,
+    subject: 'Confirm your new email address',
+    html: `
+      <h2>Confirm Email Change</h2>
+      <p>Please confirm that you want to use this address for your Poufmaker account:</p>
+      <a href="${confirmationUrl}">Confirm New Email</a>
+      <p>This link will expire in ${CONFIRMATION_TOKEN_TTL_HOURS} hours.</p>
+      <p>If you didn't request this change, please ignore this email.</p>
+    `
+  };
+}
+
+export function generateApplicationDecisionEmail(email: string, approved: boolean, reason?: string | null) {
+  return {
+    to: email,
+    subject: approved
+      ? 'Your upholsterer application was approved'
+      : 'Your upholsterer application was not approved',
+    html: approved
+      ? `
+      <h2>Welcome aboard!</h2>
+      <p>Your application to work as an upholsterer on Poufmaker has been approved.</p>
+      <p>You can now bid on products. Sign in again if your upholsterer features don't appear right away.</p>
+    `
+      : `
+      <h2>Application Update</h2>
+      <p>Unfortunately your application to work as an upholsterer on Poufmaker was not approved.</p>
+      ${reason ? `<p>Reason: ${reason}</p>` : ''}
+      <p>You are welcome to apply again with updated business details.</p>
+    `
+  };
+}
+
+export function generateAdminInviteEmail(email: string, token: string) {
+  const setupLink = `${process.env.NEXT_PUBLIC_APP_URL}/reset-password?token=${token}`;
+
+  return {
+    to: email,
+    subject: 'You have been invited as a Poufmaker administrator',
+    html: `
+      <h2>Administrator Invitation</h2>
+      <p>An administrator account has been created for you. Choose a password to activate it:</p>
+      <p><a href="${setupLink}">Set Password</a></p>
+      <p>This link will expire in 24 hours.</p>
+    `
+  };
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getClientIp, getUserAgent } from '@/lib/request';
+
+// History is best-effort: a failed write is logged but never fails the request.
+export async function recordFailedLogin(userId: string, failureReason: string, request: NextRequest) {
+  try {
+    await prisma.userLoginHistory.create({
+      data: {
+        userId,
+        ipAddress: getClientIp(request),
+        userAgent: getUserAgent(request),
+        successful: false,
+        failureReason
+      }
+    });
+  } catch (dbError) {
+    console.error('Login history creation error:', dbError);
+  }
+}
+
+export async function recordSuccessfulLogin(userId: string, request: NextRequest) {
+  try {
+    await prisma.users.update({
+      where: { Id: userId },
+      data: { lastLoginDate: new Date() }
+    });
+
+    await prisma.userLoginHistory.create({
+      data: {
+        userId,
+        ipAddress: getClientIp(request),
+        userAgent: getUserAgent(request),
+        successful: true
+      }
+    });
+  } catch (dbError) {
+    console.error('Login history creation error:', dbError);
+  }
+}
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { verifyTotp } from '@/lib/totp';
+import type { Role } from '@/lib/authorize';
+
+export const LOGIN_CHALLENGE_PURPOSE = 'login-2fa';
+export const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// Roles allowed to enroll; everyone else keeps password-only auth
+export const TWO_FACTOR_ROLES: Role[] = ['upholsterer', 'admin'];
+
+const RECOVERY_CODE_COUNT = 10;
+const POLICY_CACHE_TTL_MS = 60 * 1000;
+
+let policyCache: { loadedAt: number; required: Set<string> } | null = null;
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Replaces every recovery code of the user and returns the new plaintext
+ * codes. They are only ever shown once; the database keeps hashes.
+ */
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.userRecoveryCodes.deleteMany({ where: { userId } }),
+    prisma.userRecoveryCodes.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) }))
+    })
+  ]);
+
+  return codes;
+}
+
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  if (!policyCache || Date.now() - policyCache.loadedAt > POLICY_CACHE_TTL_MS) {
+    const policies = await prisma.roleSecurityPolicies.findMany({
+      where: { requireTwoFactor: true },
+      select: { role: true }
+    });
+    policyCache = { loadedAt: Date.now(), required: new Set(policies.map((policy) => policy.role)) };
+  }
+  return policyCache.required.has(role);
+}
+
+export function clearTwoFactorPolicyCache() {
+  policyCache = null;
+}
+
+interface SecondFactorUser {
+  Id: string;
+  totpSecret: string | null;
+  totpLastUsedStep: number | null;
+}
+
+/**
+ * Checks a TOTP code or a one-time recovery code. A successful TOTP code is
+ * bound to its time step and a recovery code is consumed, so neither can be
+ * replayed.
+ */
+export async function verifySecondFactor(
+  user: SecondFactorUser,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  if (code && user.totpSecret) {
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null || (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep)) {
+      return false;
+    }
+
+    const { count } = await prisma.users.updateMany({
+      where: {
+        Id: user.Id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }]
+      },
+      data: { totpLastUsedStep: step }
+    });
+    return count > 0;
+  }
+
+  if (recoveryCode) {
+    const { count } = await prisma.userRecoveryCodes.updateMany({
+      where: {
+        userId: user.Id,
+        codeHash: hashRecoveryCode(recoveryCode),
+        usedAt: null
+      },
+      data: { usedAt: new Date() }
+    });
+    return count > 0;
+  }
+
+  return false;
+}
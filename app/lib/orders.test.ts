@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { MILESTONE_SCHEDULE, splitIntoMilestones } from '@/lib/orders';
+
+const sum = (parts: { amount: number }[]) => parts.reduce((total, part) => total + Math.round(part.amount * 100), 0) / 100;
+
+describe('splitIntoMilestones', () => {
+  it('splits the total along the schedule', () => {
+    expect(splitIntoMilestones(1000)).toEqual([
+      { kind: 'deposit', sequence: 1, amount: 300 },
+      { kind: 'on-production', sequence: 2, amount: 400 },
+      { kind: 'on-delivery', sequence: 3, amount: 300 }
+    ]);
+  });
+
+  it('lets the last milestone absorb rounding', () => {
+    const parts = splitIntoMilestones(100.01);
+
+    expect(parts.map((part) => part.amount)).toEqual([30, 40, 30.01]);
+    expect(sum(parts)).toBe(100.01);
+  });
+
+  it('adds up exactly for awkward totals', () => {
+    for (const total of [0.01, 0.05, 33.33, 99.99, 1234.57, 99999999.99]) {
+      expect(sum(splitIntoMilestones(total))).toBe(total);
+    }
+  });
+
+  it('accepts Prisma decimals', () => {
+    expect(splitIntoMilestones(new Prisma.Decimal('250.50')).map((part) => part.amount)).toEqual([75.15, 100.2, 75.15]);
+  });
+
+  it('covers the whole schedule', () => {
+    expect(MILESTONE_SCHEDULE.reduce((total, milestone) => total + milestone.percent, 0)).toBe(100);
+  });
+});
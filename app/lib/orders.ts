@@ -0,0 +1,244 @@
+import { Prisma } from '@prisma/client';
+import { nextDocumentNumber } from '@/lib/documentNumbers';
+
+/**
+ * Payment schedule for every order. Each milestone is invoiced when the
+ * product reaches `dueOn`; the deposit is due as soon as the bid is accepted.
+ */
+export const MILESTONE_SCHEDULE = [
+  { kind: 'deposit', percent: 30, dueOn: 'awarded' },
+  { kind: 'on-production', percent: 40, dueOn: 'in-production' },
+  { kind: 'on-delivery', percent: 30, dueOn: 'delivered' }
+] as const;
+
+/**
+ * Milestones go scheduled → due (invoiced, charge in the ledger) →
+ * processing (payment started with the provider) → paid. A failed payment
+ * returns the milestone to due. Cancelling the product cancels every
+ * milestone that isn't paid.
+ */
+export type MilestoneStatus = 'scheduled' | 'due' | 'processing' | 'paid' | 'cancelled';
+
+// charge: money owed; void: a charge that no longer applies; payment and refund: money moved by the provider
+export type LedgerEntryType = 'charge' | 'void' | 'payment' | 'refund';
+
+export const orderDetailInclude = {
+  product: {
+    select: {
+      Id: true,
+      title: true,
+      status: true
+    }
+  },
+  client: {
+    select: {
+      Id: true,
+      fullName: true
+    }
+  },
+  upholsterer: {
+    select: {
+      Id: true,
+      fullName: true
+    }
+  },
+  milestones: {
+    orderBy: { sequence: 'asc' as const }
+  },
+  ledgerEntries: {
+    orderBy: { createdAt: 'asc' as const }
+  }
+};
+
+function toCents(value: Prisma.Decimal | number) {
+  return Math.round(Number(value) * 100);
+}
+
+// Splits the total by percentage; the last milestone absorbs rounding so the parts add up exactly
+export function splitIntoMilestones(total: Prisma.Decimal | number) {
+  const totalCents = toCents(total);
+  let allocated = 0;
+
+  return MILESTONE_SCHEDULE.map((milestone, index) => {
+    const cents = index === MILESTONE_SCHEDULE.length - 1
+      ? totalCents - allocated
+      : Math.round(totalCents * milestone.percent / 100);
+    allocated += cents;
+    return { kind: milestone.kind, sequence: index + 1, amount: cents / 100 };
+  });
+}
+
+/**
+ * Invoices a milestone: assigns its invoice number, marks it due and writes
+ * the matching charge to the ledger.
+ */
+async function invoiceMilestone(
+  tx: Prisma.TransactionClient,
+  order: { Id: string; currency: string },
+  milestone: { Id: string; kind: string; amount: Prisma.Decimal | number }
+) {
+  const invoiceNumber = await nextDocumentNumber(tx, 'INV');
+  const now = new Date();
+
+  await tx.orderMilestones.update({
+    where: { Id: milestone.Id },
+    data: { status: 'due', invoiceNumber, dueAt: now, updatedAt: now }
+  });
+
+  await tx.ledgerEntries.create({
+    data: {
+      orderId: order.Id,
+      milestoneId: milestone.Id,
+      entryType: 'charge',
+      amount: milestone.amount,
+      currency: order.currency,
+      description: `${invoiceNumber}: ${milestone.kind} milestone`
+    }
+  });
+}
+
+/**
+ * Creates the order for a freshly accepted bid, with its milestones, and
+ * invoices the deposit straight away. Runs inside the acceptance transaction.
+ */
+export async function createOrderForBid(
+  tx: Prisma.TransactionClient,
+  bid: { Id: string; productId: string; upholstererId: string; amount: Prisma.Decimal; currency: string },
+  clientId: string
+) {
+  const order = await tx.orders.create({
+    data: {
+      orderNumber: await nextDocumentNumber(tx, 'ORD'),
+      bidId: bid.Id,
+      productId: bid.productId,
+      clientId,
+      upholstererId: bid.upholstererId,
+      totalAmount: bid.amount,
+      currency: bid.currency,
+      milestones: {
+        create: splitIntoMilestones(bid.amount)
+      }
+    },
+    include: { milestones: true }
+  });
+
+  await invoiceMilestonesDueOn(tx, order, 'awarded');
+  return order;
+}
+
+async function invoiceMilestonesDueOn(
+  tx: Prisma.TransactionClient,
+  order: { Id: string; currency: string; milestones: { Id: string; kind: string; status: string; amount: Prisma.Decimal }[] },
+  productStatus: string
+) {
+  const kinds: string[] = MILESTONE_SCHEDULE
+    .filter((milestone) => milestone.dueOn === productStatus)
+    .map((milestone) => milestone.kind);
+
+  for (const milestone of order.milestones) {
+    if (kinds.includes(milestone.kind) && milestone.status === 'scheduled') {
+      await invoiceMilestone(tx, order, milestone);
+    }
+  }
+}
+
+/**
+ * Keeps the order in step with the product lifecycle: reaching a milestone's
+ * status invoices it, and cancelling the product cancels the order.
+ */
+export async function syncOrderWithProductStatus(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  productStatus: string
+) {
+  const order = await tx.orders.findFirst({
+    where: { productId, status: { not: 'cancelled' } },
+    include: { milestones: true }
+  });
+  if (!order) return;
+
+  if (productStatus === 'cancelled') {
+    await cancelOrder(tx, order);
+    return;
+  }
+
+  await invoiceMilestonesDueOn(tx, order, productStatus);
+}
+
+async function cancelOrder(
+  tx: Prisma.TransactionClient,
+  order: { Id: string; currency: string; milestones: { Id: string; status: string; amount: Prisma.Decimal; invoiceNumber: string | null }[] }
+) {
+  const now = new Date();
+
+  for (const milestone of order.milestones) {
+    if (milestone.status === 'paid' || milestone.status === 'cancelled') continue;
+
+    // Invoiced but unpaid charges are voided so the balance goes back to zero
+    if (milestone.status === 'due' || milestone.status === 'processing') {
+      await tx.ledgerEntries.create({
+        data: {
+          orderId: order.Id,
+          milestoneId: milestone.Id,
+          entryType: 'void',
+          amount: milestone.amount,
+          currency: order.currency,
+          description: `${milestone.invoiceNumber}: voided, order cancelled`
+        }
+      });
+    }
+
+    await tx.orderMilestones.update({
+      where: { Id: milestone.Id },
+      data: { status: 'cancelled', updatedAt: now }
+    });
+  }
+
+  await tx.orders.update({
+    where: { Id: order.Id },
+    data: { status: 'cancelled', updatedAt: now }
+  });
+}
+
+/**
+ * Derives the order status from its milestones after a payment or refund.
+ */
+export async function refreshOrderStatus(tx: Prisma.TransactionClient, orderId: string) {
+  const order = await tx.orders.findUniqueOrThrow({
+    where: { Id: orderId },
+    include: { milestones: { select: { status: true } } }
+  });
+  if (order.status === 'cancelled') return;
+
+  const paid = order.milestones.filter((milestone) => milestone.status === 'paid').length;
+  const status = paid === 0
+    ? 'awaiting-payment'
+    : paid === order.milestones.length ? 'paid' : 'partially-paid';
+
+  if (status !== order.status) {
+    await tx.orders.update({
+      where: { Id: orderId },
+      data: { status, updatedAt: new Date() }
+    });
+  }
+}
+
+/**
+ * Totals per ledger entry type and the outstanding balance, in cents-exact
+ * decimals.
+ */
+export function summarizeLedger(entries: { entryType: string; amount: Prisma.Decimal }[]) {
+  const totals: Record<LedgerEntryType, number> = { charge: 0, void: 0, payment: 0, refund: 0 };
+  for (const entry of entries) {
+    if (entry.entryType in totals) {
+      totals[entry.entryType as LedgerEntryType] += toCents(entry.amount);
+    }
+  }
+
+  return {
+    charged: (totals.charge - totals.void) / 100,
+    paid: totals.payment / 100,
+    refunded: totals.refund / 100,
+    balanceDue: (totals.charge - totals.void - totals.payment + totals.refund) / 100
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, keysetAfter, paginate, parseLimit } from '@/lib/pagination';
+
+describe('parseLimit', () => {
+  it('defaults when absent and accepts whole numbers in range', () => {
+    expect(parseLimit(null)).toBe(20);
+    expect(parseLimit('1')).toBe(1);
+    expect(parseLimit('100')).toBe(100);
+  });
+
+  it.each(['0', '101', '2.5', 'ten', ''])('rejects %j', (value) => {
+    expect(parseLimit(value)).toBeNull();
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip through their opaque encoding', () => {
+    const cursor = { sort: 'newest', value: '2026-01-01T00:00:00.000Z', id: 'a1' };
+    expect(decodeCursor(encodeCursor(cursor), 'newest')).toEqual(cursor);
+  });
+
+  it('keep null values and offsets', () => {
+    expect(decodeCursor(encodeCursor({ sort: 'price-asc', value: null, id: 'a1' }), 'price-asc'))
+      .toEqual({ sort: 'price-asc', value: null, id: 'a1' });
+    expect(decodeCursor(encodeCursor({ sort: 'most-bids', offset: 40 }), 'most-bids'))
+      .toEqual({ sort: 'most-bids', offset: 40 });
+  });
+
+  it('are rejected for another sort', () => {
+    expect(decodeCursor(encodeCursor({ sort: 'newest', value: 1, id: 'a1' }), 'oldest')).toBeNull();
+  });
+
+  it.each([
+    ['garbage', 'not base64 json'],
+    ['missing id', Buffer.from(JSON.stringify({ sort: 'newest', value: 1 })).toString('base64url')],
+    ['missing value', Buffer.from(JSON.stringify({ sort: 'newest', id: 'a1' })).toString('base64url')],
+    ['bad offset', Buffer.from(JSON.stringify({ sort: 'newest', offset: -1 })).toString('base64url')],
+    ['fractional offset', Buffer.from(JSON.stringify({ sort: 'newest', offset: 1.5 })).toString('base64url')]
+  ])('are rejected when malformed (%s)', (_, value) => {
+    expect(decodeCursor(value, 'newest')).toBeNull();
+  });
+});
+
+describe('keysetAfter', () => {
+  it('continues ascending after a value, breaking ties on Id', () => {
+    expect(keysetAfter('price', 'asc', 10, 'a1')).toEqual({
+      OR: [{ price: { gt: 10 } }, { price: 10, Id: { gt: 'a1' } }]
+    });
+  });
+
+  it('continues descending into the NULLs that SQL Server sorts last', () => {
+    expect(keysetAfter('price', 'desc', 10, 'a1')).toEqual({
+      OR: [{ price: { lt: 10 } }, { price: 10, Id: { lt: 'a1' } }, { price: null }]
+    });
+  });
+
+  it('continues ascending from a NULL into the non-NULL values', () => {
+    expect(keysetAfter('price', 'asc', null, 'a1')).toEqual({
+      OR: [{ price: null, Id: { gt: 'a1' } }, { price: { not: null } }]
+    });
+  });
+
+  it('stays among the NULLs when descending from one', () => {
+    expect(keysetAfter('price', 'desc', null, 'a1')).toEqual({ price: null, Id: { lt: 'a1' } });
+  });
+});
+
+describe('paginate', () => {
+  const rows = [{ Id: 'a' }, { Id: 'b' }, { Id: 'c' }];
+  const cursorFor = (last: { Id: string }) => ({ sort: 'newest', value: last.Id, id: last.Id });
+
+  it('returns a cursor after the last row when there is another page', () => {
+    const page = paginate(rows, 2, cursorFor);
+
+    expect(page.items).toEqual([{ Id: 'a' }, { Id: 'b' }]);
+    expect(decodeCursor(page.nextCursor as string, 'newest')).toEqual({ sort: 'newest', value: 'b', id: 'b' });
+  });
+
+  it('returns no cursor on the last page', () => {
+    expect(paginate(rows, 3, cursorFor)).toEqual({ items: rows, nextCursor: null });
+  });
+});
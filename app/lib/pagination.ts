@@ -0,0 +1,85 @@
+export const DEFAULT_PAGE_SIZE = 20;
+
+export const MAX_PAGE_SIZE = 100;
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Position of the last row on a page: the value of the sort column and the
+ * row's Id as a tiebreaker. Sorts that can't be expressed as a where clause
+ * (such as relation counts) carry an offset instead.
+ */
+export interface PageCursor {
+  sort: string;
+  value?: string | number | null;
+  id?: string;
+  offset?: number;
+}
+
+export function parseLimit(value: string | null): number | null {
+  if (value === null) return DEFAULT_PAGE_SIZE;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= MAX_PAGE_SIZE ? limit : null;
+}
+
+// Range filters: undefined when absent, null when present but unusable
+export function parseNumberParam(value: string | null): number | null | undefined {
+  if (value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+export function parseDateParam(value: string | null): Date | null | undefined {
+  if (value === null || value === '') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Cursors are opaque to clients; they only hand back what nextCursor gave them
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string, sort: string): PageCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!cursor || cursor.sort !== sort) return null;
+    if (cursor.offset !== undefined) {
+      return Number.isInteger(cursor.offset) && cursor.offset > 0 ? cursor : null;
+    }
+    return typeof cursor.id === 'string' && cursor.value !== undefined ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where clause for the rows that come after (value, id) when ordering by
+ * `field` and then Id in the same direction. SQL Server sorts NULLs first
+ * ascending and last descending, which the clauses mirror.
+ */
+export function keysetAfter(field: string, direction: SortDirection, value: unknown, id: string) {
+  const op = direction === 'asc' ? 'gt' : 'lt';
+
+  if (value === null) {
+    const tie = { [field]: null, Id: { [op]: id } };
+    return direction === 'asc' ? { OR: [tie, { [field]: { not: null } }] } : tie;
+  }
+
+  const after: object[] = [{ [field]: { [op]: value } }, { [field]: value, Id: { [op]: id } }];
+  if (direction === 'desc') after.push({ [field]: null });
+  return { OR: after };
+}
+
+/**
+ * Splits a page fetched with limit + 1 rows into the rows to return and the
+ * cursor for the next page, or null when this was the last one.
+ */
+export function paginate<T>(rows: T[], limit: number, cursorFor: (last: T) => PageCursor) {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(cursorFor(items[items.length - 1])) : null
+  };
+}
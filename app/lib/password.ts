@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+// Stored as scrypt$<N>$<r>$<p>$<salt>$<hash> so the cost can be raised later
+// without invalidating existing hashes.
+const SCRYPT_PREFIX = 'scrypt';
+const SCRYPT_COST = parseInt(process.env.SCRYPT_COST || '32768');
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+
+// Hashes written before the scrypt migration: hex PBKDF2 with a separate salt column
+const LEGACY_PBKDF2_ITERATIONS = 1000;
+
+export interface PasswordHash {
+  passwordHash: string;
+  passwordSalt: string;
+}
+
+interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+function scrypt(password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+function parseScryptHash(passwordHash: string): ScryptParams | null {
+  const parts = passwordHash.split('$');
+  if (parts.length !== 6 || parts[0] !== SCRYPT_PREFIX) return null;
+
+  const [, N, r, p, salt, hash] = parts;
+  return {
+    N: parseInt(N),
+    r: parseInt(r),
+    p: parseInt(p),
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64')
+  };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION);
+
+  return {
+    passwordHash: [
+      SCRYPT_PREFIX,
+      SCRYPT_COST,
+      SCRYPT_BLOCK_SIZE,
+      SCRYPT_PARALLELIZATION,
+      salt.toString('base64'),
+      hash.toString('base64')
+    ].join('$'),
+    // The salt is embedded in the hash; the column is kept populated for legacy readers
+    passwordSalt: salt.toString('hex')
+  };
+}
+
+export async function verifyPassword(password: string, passwordHash: string, passwordSalt: string): Promise<boolean> {
+  const params = parseScryptHash(passwordHash);
+
+  if (params) {
+    const candidate = await scrypt(password, params.salt, params.N, params.r, params.p);
+    return safeEqual(candidate, params.hash);
+  }
+
+  const candidate = await pbkdf2(password, passwordSalt, LEGACY_PBKDF2_ITERATIONS, KEY_LENGTH, 'sha512');
+  return safeEqual(candidate, Buffer.from(passwordHash, 'hex'));
+}
+
+/**
+ * True when the stored hash uses the legacy scheme or weaker parameters than
+ * the current configuration, so it should be replaced after a successful login.
+ */
+export function needsRehash(passwordHash: string): boolean {
+  const params = parseScryptHash(passwordHash);
+  if (!params) return true;
+
+  return params.N < SCRYPT_COST || params.r < SCRYPT_BLOCK_SIZE || params.p < SCRYPT_PARALLELIZATION;
+}
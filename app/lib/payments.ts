@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { refreshOrderStatus } from '@/lib/orders';
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded' | 'refund.failed';
+
+/**
+ * A state change reported by the provider. `reference` is the provider's id
+ * for the payment or refund, as returned when it was started.
+ */
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  reference: string;
+  failureReason?: string;
+}
+
+export interface PaymentRequest {
+  amount: number;
+  currency: string;
+  description: string;
+  // Our own id, so provider dashboards can be matched back to a transaction
+  idempotencyKey: string;
+}
+
+export interface RefundRequest {
+  paymentReference: string;
+  amount: number;
+  currency: string;
+  idempotencyKey: string;
+}
+
+/**
+ * Everything the order subsystem needs from a payment provider. Results
+ * arrive later through webhooks, which the provider authenticates in
+ * parseWebhook before they are applied.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createPayment(request: PaymentRequest): Promise<{ reference: string; redirectUrl: string | null }>;
+  createRefund(request: RefundRequest): Promise<{ reference: string }>;
+  // Returns null when the delivery can't be authenticated
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent | null;
+}
+
+type FakeOutcome = 'succeeded' | 'failed' | 'manual';
+
+/**
+ * Local provider for development and tests. Payments and refunds settle on
+ * their own shortly after being created (or never, with the manual outcome,
+ * until settle() is called), and the result is delivered through the same
+ * signed webhook path a real provider would use.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(
+    private readonly secret: string = process.env.FAKE_PAYMENT_WEBHOOK_SECRET || 'fake-payment-webhook-secret',
+    private readonly outcome: FakeOutcome = (process.env.FAKE_PAYMENT_OUTCOME as FakeOutcome) || 'succeeded'
+  ) {}
+
+  async createPayment() {
+    const reference = `fake_pay_${crypto.randomUUID()}`;
+    this.scheduleSettlement(reference, 'payment');
+    return { reference, redirectUrl: null };
+  }
+
+  async createRefund() {
+    const reference = `fake_ref_${crypto.randomUUID()}`;
+    this.scheduleSettlement(reference, 'refund');
+    return { reference };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent | null {
+    const signature = headers.get('x-fake-signature') || '';
+    const expected = this.sign(rawBody);
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return null;
+    }
+    return JSON.parse(rawBody) as PaymentEvent;
+  }
+
+  /**
+   * Reports the outcome of a payment or refund as a signed webhook delivery.
+   */
+  async settle(reference: string, kind: 'payment' | 'refund', succeeded: boolean) {
+    const event: PaymentEvent = {
+      id: `fake_evt_${crypto.randomUUID()}`,
+      type: `${kind}.${succeeded ? 'succeeded' : 'failed'}`,
+      reference,
+      failureReason: succeeded ? undefined : 'Declined by the fake provider'
+    };
+    const rawBody = JSON.stringify(event);
+    return processWebhook(this.name, rawBody, new Headers({ 'x-fake-signature': this.sign(rawBody) }));
+  }
+
+  private sign(rawBody: string) {
+    return crypto.createHmac('sha256', this.secret).update(rawBody).digest('hex');
+  }
+
+  private scheduleSettlement(reference: string, kind: 'payment' | 'refund', attempt = 1) {
+    if (this.outcome === 'manual') return;
+    // Settle after the caller has stored the reference; like a real provider, retry deliveries that aren't acknowledged
+    setTimeout(() => {
+      this.settle(reference, kind, this.outcome === 'succeeded').then((result) => {
+        if (result.status !== 200 && attempt < 5) this.scheduleSettlement(reference, kind, attempt + 1);
+      }).catch((error) => {
+        console.error('Error settling fake payment:', error);
+      });
+    }, 100 * attempt);
+  }
+}
+
+let provider: PaymentProvider = new FakePaymentProvider();
+
+export function getPaymentProvider(): PaymentProvider {
+  return provider;
+}
+
+export function setPaymentProvider(next: PaymentProvider) {
+  provider = next;
+}
+
+/**
+ * Transactions are stored before the provider is called, so a failed call
+ * can't leave money moving that we have no record of. Until the provider
+ * returns its own reference the row carries this unique placeholder.
+ */
+export function pendingReference() {
+  return `pending_${crypto.randomUUID()}`;
+}
+
+export type WebhookResult = { status: 200 | 401 | 404 | 409; message: string };
+
+/**
+ * Entry point for webhook deliveries. Events are applied at most once:
+ * providers retry deliveries, so duplicates are acknowledged and ignored.
+ * Events for references we don't know yet are refused without being
+ * recorded, so the provider delivers them again once the reference is stored.
+ */
+export async function processWebhook(providerName: string, rawBody: string, headers: Headers): Promise<WebhookResult> {
+  const current = getPaymentProvider();
+  if (current.name !== providerName) {
+    return { status: 404, message: 'Unknown payment provider' };
+  }
+
+  const event = current.parseWebhook(rawBody, headers);
+  if (!event) {
+    return { status: 401, message: 'Invalid webhook signature' };
+  }
+
+  let applied;
+  try {
+    applied = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.paymentTransactions.findUnique({
+        where: { provider_providerReference: { provider: providerName, providerReference: event.reference } },
+        include: { milestone: { select: { invoiceNumber: true } } }
+      });
+      if (!transaction) return false;
+
+      await tx.paymentWebhookEvents.create({
+        data: { provider: providerName, eventId: event.id, eventType: event.type }
+      });
+      await applyPaymentEvent(tx, transaction, event);
+      return true;
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { status: 200, message: 'Event already processed' };
+    }
+    throw error;
+  }
+
+  if (!applied) {
+    return { status: 409, message: 'Unknown payment reference' };
+  }
+
+  return { status: 200, message: 'Event processed' };
+}
+
+type TransactionWithInvoice = Prisma.PaymentTransactionsGetPayload<{
+  include: { milestone: { select: { invoiceNumber: true } } };
+}>;
+
+async function applyPaymentEvent(tx: Prisma.TransactionClient, transaction: TransactionWithInvoice, event: PaymentEvent) {
+  // Already settled transactions are acknowledged so the provider stops retrying
+  if (transaction.status !== 'pending') {
+    return;
+  }
+
+  const succeeded = event.type.endsWith('.succeeded');
+  const now = new Date();
+
+  await tx.paymentTransactions.update({
+    where: { Id: transaction.Id },
+    data: {
+      status: succeeded ? 'succeeded' : 'failed',
+      failureReason: succeeded ? null : event.failureReason,
+      updatedAt: now
+    }
+  });
+
+  const ledgerEntry = {
+    orderId: transaction.orderId,
+    milestoneId: transaction.milestoneId,
+    transactionId: transaction.Id,
+    amount: transaction.amount,
+    currency: transaction.currency
+  };
+
+  if (transaction.kind === 'payment') {
+    if (succeeded) {
+      await tx.ledgerEntries.create({
+        data: { ...ledgerEntry, entryType: 'payment', description: `${transaction.milestone.invoiceNumber}: payment received` }
+      });
+    }
+    // A failed payment leaves the invoice due so the client can try again
+    await tx.orderMilestones.updateMany({
+      where: { Id: transaction.milestoneId, status: 'processing' },
+      data: succeeded
+        ? { status: 'paid', paidAt: now, updatedAt: now }
+        : { status: 'due', updatedAt: now }
+    });
+  } else if (succeeded) {
+    // Refunded money is no longer owed, so the refund also voids that much of the charge
+    await tx.ledgerEntries.createMany({
+      data: [
+        { ...ledgerEntry, entryType: 'refund', description: `${transaction.milestone.invoiceNumber}: refunded` },
+        { ...ledgerEntry, entryType: 'void', description: `${transaction.milestone.invoiceNumber}: voided by refund` }
+      ]
+    });
+  }
+
+  await refreshOrderStatus(tx, transaction.orderId);
+}
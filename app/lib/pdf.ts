@@ -0,0 +1,186 @@
+/**
+ * Minimal PDF writer for server-rendered documents: text in the standard
+ * Helvetica fonts, lines and multiple A4 pages. Standard fonts need no
+ * embedding, so the output stays small and no external renderer is needed.
+ * Text is encoded as WinAnsi; characters outside it are replaced with '?'.
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type FontName = 'regular' | 'bold';
+
+const FONT_RESOURCES: Record<FontName, { key: string; baseFont: string }> = {
+  regular: { key: 'F1', baseFont: 'Helvetica' },
+  bold: { key: 'F2', baseFont: 'Helvetica-Bold' }
+};
+
+// Glyph widths for characters 32-126, in 1/1000 em, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Approximation for accented Latin-1 letters, which are close to the average glyph
+const DEFAULT_WIDTH = 556;
+
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (code === 0x20ac) {
+      bytes.push(0x80); // euro sign
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      bytes.push(code);
+    } else {
+      bytes.push(63);
+    }
+  }
+  return bytes;
+}
+
+export function textWidth(text: string, size: number, font: FontName = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const byte of toWinAnsi(text)) {
+    total += byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_WIDTH;
+  }
+  return total * size / 1000;
+}
+
+/**
+ * Breaks text into lines no wider than maxWidth, honouring existing line
+ * breaks. Words longer than a line are split.
+ */
+export function wrapText(text: string, maxWidth: number, size: number, font: FontName = 'regular'): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function escapeText(text: string): string {
+  return toWinAnsi(text)
+    .map((byte) => {
+      const char = String.fromCharCode(byte);
+      if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+      return byte < 128 ? char : `\\${byte.toString(8).padStart(3, '0')}`;
+    })
+    .join('');
+}
+
+export interface TextOptions {
+  size?: number;
+  font?: FontName;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Collects drawing operations page by page. Coordinates are in points with
+ * the origin at the top-left corner, which is what layout code expects;
+ * they are flipped to PDF's bottom-left origin when written.
+ */
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const font = options.font ?? 'regular';
+    const left = options.align === 'right' ? x - textWidth(text, size, font) : x;
+    this.current().push(
+      `BT /${FONT_RESOURCES[font].key} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5) {
+    this.current().push(
+      `${width} w ${x1.toFixed(2)} ${(PAGE_HEIGHT - y1).toFixed(2)} m ${x2.toFixed(2)} ${(PAGE_HEIGHT - y2).toFixed(2)} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontIds: Record<FontName, number> = { regular: 3, bold: 4 };
+    const firstPageId = 5;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    for (const font of Object.keys(FONT_RESOURCES) as FontName[]) {
+      objects[fontIds[font]] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`;
+    }
+
+    const fontDictionary = (Object.keys(FONT_RESOURCES) as FontName[])
+      .map((font) => `/${FONT_RESOURCES[font].key} ${fontIds[font]} 0 R`)
+      .join(' ');
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageIds[index];
+      const content = operations.join('\n');
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontDictionary} >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Content only ever holds latin1 bytes, so string length equals byte offset
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private current() {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,67 @@
+import { prisma } from '@/lib/prisma';
+import { jsonError, OwnershipCheck } from '@/lib/authorize';
+
+type IdParams = { id: string };
+
+export const productCreator: OwnershipCheck<IdParams> = async (principal, { id }) => {
+  const product = await prisma.products.findUnique({
+    where: { Id: id },
+    select: { creatorId: true }
+  });
+  if (!product) return jsonError('Product not found', 404);
+  return product.creatorId === principal.userId;
+};
+
+export const bidParticipant: OwnershipCheck<IdParams> = async (principal, { id }) => {
+  const bid = await prisma.bids.findUnique({
+    where: { Id: id },
+    select: { upholstererId: true, product: { select: { creatorId: true } } }
+  });
+  if (!bid) return jsonError('Bid not found', 404);
+  return bid.upholstererId === principal.userId || bid.product.creatorId === principal.userId;
+};
+
+export const bidOwner: OwnershipCheck<IdParams> = async (principal, { id }) => {
+  const bid = await prisma.bids.findUnique({
+    where: { Id: id },
+    select: { upholstererId: true }
+  });
+  if (!bid) return jsonError('Bid not found', 404);
+  return bid.upholstererId === principal.userId;
+};
+
+export const bidProductCreator: OwnershipCheck<IdParams> = async (principal, { id }) => {
+  const bid = await prisma.bids.findUnique({
+    where: { Id: id },
+    select: { product: { select: { creatorId: true } } }
+  });
+  if (!bid) return jsonError('Bid not found', 404);
+  return bid.product.creatorId === principal.userId;
+};
+
+export const orderParticipant: OwnershipCheck<IdParams> = async (principal, { id }) => {
+  const order = await prisma.orders.findUnique({
+    where: { Id: id },
+    select: { clientId: true, upholstererId: true }
+  });
+  if (!order) return jsonError('Order not found', 404);
+  return order.clientId === principal.userId || order.upholstererId === principal.userId;
+};
+
+export const orderClient: OwnershipCheck<IdParams> = async (principal, { id }) => {
+  const order = await prisma.orders.findUnique({
+    where: { Id: id },
+    select: { clientId: true }
+  });
+  if (!order) return jsonError('Order not found', 404);
+  return order.clientId === principal.userId;
+};
+
+export const reviewedUpholsterer: OwnershipCheck<{ id: string; reviewId: string }> = async (principal, { id, reviewId }) => {
+  const review = await prisma.upholstererReviews.findFirst({
+    where: { Id: reviewId, upholstererId: id },
+    select: { upholstererId: true }
+  });
+  if (!review) return jsonError('Review not found', 404);
+  return review.upholstererId === principal.userId;
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getStorage } from '@/lib/storage';
+
+export const ALLOWED_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+export const MAX_IMAGE_BYTES = parseInt(process.env.MAX_IMAGE_BYTES || String(10 * 1024 * 1024));
+
+export const MAX_PRODUCT_IMAGES = 20;
+
+// Longest side in pixels; smaller originals are not scaled up
+const VARIANTS = {
+  thumbnail: 200,
+  medium: 800
+};
+
+// sharp's format name for each accepted MIME type, to catch mislabelled files
+const SHARP_FORMATS: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+export const productImageSelect = {
+  Id: true,
+  mimeType: true,
+  sizeBytes: true,
+  width: true,
+  height: true,
+  originalUrl: true,
+  mediumUrl: true,
+  thumbnailUrl: true,
+  sortOrder: true,
+  createdAt: true
+};
+
+export type ProductImage = Prisma.ProductImagesGetPayload<{ select: typeof productImageSelect }>;
+
+export type UploadResult =
+  | { ok: true; image: ProductImage }
+  | { ok: false; error: string };
+
+export function validateImageFile(file: File): string | null {
+  if (!ALLOWED_IMAGE_TYPES[file.type]) {
+    return `${file.name}: only ${Object.keys(ALLOWED_IMAGE_TYPES).join(', ')} images are accepted`;
+  }
+  if (file.size === 0 || file.size > MAX_IMAGE_BYTES) {
+    return `${file.name}: images must be between 1 byte and ${Math.floor(MAX_IMAGE_BYTES / (1024 * 1024))} MB`;
+  }
+  return null;
+}
+
+// Every file of an image lives under its storageKey prefix
+function variantKeys(base: string, mimeType: string) {
+  return {
+    original: `${base}/original.${ALLOWED_IMAGE_TYPES[mimeType]}`,
+    medium: `${base}/medium.webp`,
+    thumbnail: `${base}/thumbnail.webp`
+  };
+}
+
+/**
+ * Stores an uploaded image with its medium and thumbnail variants and records
+ * it against the product. The content is decoded before anything is stored,
+ * so a file whose bytes don't match its declared type is rejected.
+ */
+export async function storeProductImage(productId: string, file: File, sortOrder: number): Promise<UploadResult> {
+  const invalid = validateImageFile(file);
+  if (invalid) return { ok: false, error: invalid };
+
+  const original = Buffer.from(await file.arrayBuffer());
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(original).metadata();
+  } catch {
+    return { ok: false, error: `${file.name}: not a readable image` };
+  }
+  if (metadata.format !== SHARP_FORMATS[file.type] || !metadata.width || !metadata.height) {
+    return { ok: false, error: `${file.name}: content does not match ${file.type}` };
+  }
+
+  // rotate() applies the EXIF orientation so variants display the right way up
+  const [medium, thumbnail] = await Promise.all(
+    [VARIANTS.medium, VARIANTS.thumbnail].map((size) =>
+      sharp(original).rotate().resize(size, size, { fit: 'inside', withoutEnlargement: true }).webp({ quality: 80 }).toBuffer()
+    )
+  );
+
+  const imageId = crypto.randomUUID();
+  const storageKey = `products/${productId}/${imageId}`;
+  const keys = variantKeys(storageKey, file.type);
+  const storage = getStorage();
+  const [originalUrl, mediumUrl, thumbnailUrl] = await Promise.all([
+    storage.put(keys.original, original, file.type),
+    storage.put(keys.medium, medium, 'image/webp'),
+    storage.put(keys.thumbnail, thumbnail, 'image/webp')
+  ]);
+
+  try {
+    const image = await prisma.productImages.create({
+      data: {
+        Id: imageId,
+        productId,
+        storageKey,
+        mimeType: file.type,
+        sizeBytes: original.length,
+        width: metadata.width,
+        height: metadata.height,
+        originalUrl,
+        mediumUrl,
+        thumbnailUrl,
+        sortOrder
+      },
+      select: productImageSelect
+    });
+    return { ok: true, image };
+  } catch (error) {
+    await removeStoredImages([{ storageKey, mimeType: file.type }]);
+    throw error;
+  }
+}
+
+/**
+ * Deletes the stored files for images whose rows are gone. Failures are
+ * logged rather than thrown: the database is the source of truth and an
+ * orphaned file is harmless.
+ */
+export async function removeStoredImages(images: { storageKey: string; mimeType: string }[]) {
+  const storage = getStorage();
+  await Promise.all(images.flatMap((image) =>
+    Object.values(variantKeys(image.storageKey, image.mimeType)).map((key) =>
+      storage.delete(key).catch((error) => {
+        console.error(`Error deleting stored image ${key}:`, error);
+      })
+    )
+  ));
+}
@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { Principal, isAdmin } from '@/lib/authorize';
+
+export const PRODUCT_STATUSES = [
+  'draft',
+  'open-for-bids',
+  'awarded',
+  'in-production',
+  'shipped',
+  'delivered',
+  'completed',
+  'cancelled'
+] as const;
+
+export type ProductStatus = typeof PRODUCT_STATUSES[number];
+
+// Statuses a product may be created in
+export const INITIAL_PRODUCT_STATUSES: ProductStatus[] = ['draft', 'open-for-bids'];
+
+// The party to a product a transition is reserved for. Admins may perform any transition.
+type Actor = 'creator' | 'manufacturer';
+
+/**
+ * Transitions that can be requested through the status endpoint and who may
+ * request them. An empty list reserves the transition for admins. Awarding a
+ * product is not listed: it only happens by accepting a bid, which also sets
+ * the manufacturer and creates the order.
+ */
+const TRANSITIONS: Record<ProductStatus, Partial<Record<ProductStatus, Actor[]>>> = {
+  'draft': {
+    'open-for-bids': ['creator'],
+    'cancelled': ['creator']
+  },
+  'open-for-bids': {
+    'draft': ['creator'],
+    'cancelled': ['creator']
+  },
+  'awarded': {
+    'in-production': ['manufacturer'],
+    'cancelled': ['creator']
+  },
+  'in-production': {
+    'shipped': ['manufacturer'],
+    'cancelled': []
+  },
+  'shipped': {
+    'delivered': ['manufacturer', 'creator']
+  },
+  'delivered': {
+    'completed': ['creator']
+  },
+  'completed': {},
+  'cancelled': {}
+};
+
+export function isProductStatus(value: unknown): value is ProductStatus {
+  return typeof value === 'string' && (PRODUCT_STATUSES as readonly string[]).includes(value);
+}
+
+export function allowedNextStatuses(from: string): ProductStatus[] {
+  return isProductStatus(from) ? (Object.keys(TRANSITIONS[from]) as ProductStatus[]) : [];
+}
+
+export type TransitionCheck =
+  | { allowed: true }
+  | { allowed: false; status: 400 | 403; error: string };
+
+/**
+ * Checks that `to` is reachable from the product's current status and that
+ * the principal is the party the transition is reserved for.
+ */
+export function checkTransition(
+  product: { status: string; creatorId: string; manufacturerId: string | null },
+  to: ProductStatus,
+  principal: Principal
+): TransitionCheck {
+  const actors = isProductStatus(product.status) ? TRANSITIONS[product.status][to] : undefined;
+
+  if (!actors) {
+    return { allowed: false, status: 400, error: `Cannot move a product from ${product.status} to ${to}` };
+  }
+
+  if (isAdmin(principal)) {
+    return { allowed: true };
+  }
+
+  const isCreator = product.creatorId === principal.userId;
+  const isManufacturer = product.manufacturerId !== null && product.manufacturerId === principal.userId;
+
+  if ((actors.includes('creator') && isCreator) || (actors.includes('manufacturer') && isManufacturer)) {
+    return { allowed: true };
+  }
+
+  return { allowed: false, status: 403, error: `Not authorized to move this product to ${to}` };
+}
+
+/**
+ * Moves a product from `from` to `to` and writes the history row. The update
+ * is conditional on the current status, so it returns false instead of
+ * clobbering a concurrent transition.
+ */
+export async function applyTransition(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  from: string,
+  to: ProductStatus,
+  changedById: string | null,
+  note?: string | null
+): Promise<boolean> {
+  const { count } = await tx.products.updateMany({
+    where: { Id: productId, status: from },
+    data: { status: to, updatedAt: new Date() }
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await tx.productStatusHistory.create({
+    data: {
+      productId,
+      fromStatus: from,
+      toStatus: to,
+      changedById,
+      note
+    }
+  });
+
+  return true;
+}
@@ -0,0 +1,137 @@
+import { Prisma } from '@prisma/client';
+import { isProductStatus } from '@/lib/productLifecycle';
+import { FABRIC_TYPES, FILLING_TYPES, FIRMNESS_LEVELS, SHAPES } from '@/lib/productSpecs';
+import { decodeCursor, keysetAfter, PageCursor, parseDateParam, parseLimit, parseNumberParam, SortDirection } from '@/lib/pagination';
+
+export const PRODUCT_SORTS = ['newest', 'oldest', 'price-asc', 'price-desc', 'most-bids', 'fewest-bids'] as const;
+
+export type ProductSort = typeof PRODUCT_SORTS[number];
+
+const SORT_ORDER: Record<ProductSort, { field: 'createdAt' | 'price' | 'bids'; direction: SortDirection }> = {
+  'newest': { field: 'createdAt', direction: 'desc' },
+  'oldest': { field: 'createdAt', direction: 'asc' },
+  'price-asc': { field: 'price', direction: 'asc' },
+  'price-desc': { field: 'price', direction: 'desc' },
+  'most-bids': { field: 'bids', direction: 'desc' },
+  'fewest-bids': { field: 'bids', direction: 'asc' }
+};
+
+const MAX_QUERY_LENGTH = 200;
+
+// Spec filters are matched exactly against the product's ProductSpecs row
+const SPEC_FILTERS: Record<string, readonly string[]> = {
+  shape: SHAPES,
+  fabricType: FABRIC_TYPES,
+  fillingType: FILLING_TYPES,
+  firmness: FIRMNESS_LEVELS
+};
+
+export interface ProductQuery {
+  where: Prisma.ProductsWhereInput;
+  orderBy: Prisma.ProductsOrderByWithRelationInput[];
+  skip: number;
+  limit: number;
+  sort: ProductSort;
+}
+
+export type ProductQueryResult = { ok: true; query: ProductQuery } | { ok: false; error: string };
+
+/**
+ * Turns the GET /api/products query string into a Prisma query. Returns an
+ * error message for the first parameter that can't be used.
+ */
+export function parseProductQuery(params: URLSearchParams): ProductQueryResult {
+  const filters: Prisma.ProductsWhereInput[] = [];
+
+  const q = params.get('q')?.trim();
+  if (q) {
+    if (q.length > MAX_QUERY_LENGTH) {
+      return { ok: false, error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+    }
+    // Every word has to appear in the title or the description
+    for (const word of q.split(/\s+/)) {
+      filters.push({ OR: [{ title: { contains: word } }, { description: { contains: word } }] });
+    }
+  }
+
+  const status = params.get('status');
+  if (status) {
+    if (!isProductStatus(status)) return { ok: false, error: 'Unknown status' };
+    filters.push({ status });
+  }
+
+  const creatorId = params.get('creatorId');
+  if (creatorId) filters.push({ creatorId });
+
+  const minPrice = parseNumberParam(params.get('minPrice'));
+  const maxPrice = parseNumberParam(params.get('maxPrice'));
+  if (minPrice === null || maxPrice === null) {
+    return { ok: false, error: 'minPrice and maxPrice must be non-negative numbers' };
+  }
+  if (minPrice !== undefined) filters.push({ price: { gte: minPrice } });
+  if (maxPrice !== undefined) filters.push({ price: { lte: maxPrice } });
+
+  const createdFrom = parseDateParam(params.get('createdFrom'));
+  const createdTo = parseDateParam(params.get('createdTo'));
+  if (createdFrom === null || createdTo === null) {
+    return { ok: false, error: 'createdFrom and createdTo must be ISO 8601 dates' };
+  }
+  if (createdFrom) filters.push({ createdAt: { gte: createdFrom } });
+  if (createdTo) filters.push({ createdAt: { lte: createdTo } });
+
+  const spec: Record<string, string> = {};
+  for (const [name, allowed] of Object.entries(SPEC_FILTERS)) {
+    const value = params.get(name);
+    if (!value) continue;
+    if (!allowed.includes(value)) {
+      return { ok: false, error: `${name} must be one of: ${allowed.join(', ')}` };
+    }
+    spec[name] = value;
+  }
+  if (Object.keys(spec).length > 0) filters.push({ spec: { is: spec } });
+
+  const sort = (params.get('sort') || 'newest') as ProductSort;
+  if (!PRODUCT_SORTS.includes(sort)) {
+    return { ok: false, error: `sort must be one of: ${PRODUCT_SORTS.join(', ')}` };
+  }
+
+  const limit = parseLimit(params.get('limit'));
+  if (limit === null) {
+    return { ok: false, error: 'limit must be a whole number between 1 and 100' };
+  }
+
+  const { field, direction } = SORT_ORDER[sort];
+  const orderBy: Prisma.ProductsOrderByWithRelationInput[] = field === 'bids'
+    ? [{ bids: { _count: direction } }, { Id: direction }]
+    : [{ [field]: direction }, { Id: direction }];
+
+  let skip = 0;
+  const cursorParam = params.get('cursor');
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam, sort);
+    if (!cursor) return { ok: false, error: 'Invalid cursor' };
+
+    if (cursor.offset !== undefined) {
+      skip = cursor.offset;
+    } else {
+      const value = cursor.value === null || field === 'price' ? cursor.value : new Date(cursor.value as string);
+      filters.push(keysetAfter(field, direction, value, cursor.id as string) as Prisma.ProductsWhereInput);
+    }
+  }
+
+  return { ok: true, query: { where: { AND: filters }, orderBy, skip, limit, sort } };
+}
+
+/**
+ * Cursor pointing just past `last`. Bid counts can't be compared in a where
+ * clause, so those sorts page by position instead of by value.
+ */
+export function productCursor(
+  query: ProductQuery,
+  last: { Id: string; createdAt: Date; price: { toString(): string } | null }
+): PageCursor {
+  const { field } = SORT_ORDER[query.sort];
+  if (field === 'bids') return { sort: query.sort, offset: query.skip + query.limit };
+  if (field === 'price') return { sort: query.sort, value: last.price?.toString() ?? null, id: last.Id };
+  return { sort: query.sort, value: last.createdAt.toISOString(), id: last.Id };
+}
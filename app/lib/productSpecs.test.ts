@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { formatSpec, toSpecData, validateProductSpec } from '@/lib/productSpecs';
+
+const decimal = (value: number) => ({ toNumber: () => value });
+
+const roundSpec = {
+  shape: 'round',
+  diameterCm: 45.5,
+  heightCm: 40,
+  fabricType: 'velvet',
+  fabricColour: ' Emerald ',
+  fillingType: 'polystyrene-beads',
+  firmness: 'soft'
+};
+
+const squareSpec = {
+  shape: 'square',
+  widthCm: 50,
+  depthCm: 50,
+  heightCm: 42,
+  fabricType: 'leather',
+  fabricColour: 'Tan',
+  fillingType: 'foam',
+  firmness: 'firm',
+  piping: true,
+  handles: 2,
+  quantity: 4
+};
+
+describe('validateProductSpec', () => {
+  it('accepts round and square poufs', () => {
+    expect(validateProductSpec(roundSpec)).toBeNull();
+    expect(validateProductSpec(squareSpec)).toBeNull();
+  });
+
+  it.each([
+    [null, 'Spec must be an object'],
+    [[roundSpec], 'Spec must be an object'],
+    [{ ...roundSpec, shape: 'oval' }, 'Shape must be one of: round, square, cylinder'],
+    [{ ...squareSpec, depthCm: undefined }, 'Square poufs need widthCm and depthCm between 10 and 300'],
+    [{ ...squareSpec, diameterCm: 50 }, 'Square poufs are measured by width and depth, not diameter'],
+    [{ ...roundSpec, diameterCm: 45.55 }, 'Round poufs need a diameterCm between 10 and 300'],
+    [{ ...roundSpec, shape: 'cylinder', widthCm: 40 }, 'Cylindrical poufs are measured by diameter, not width and depth'],
+    [{ ...roundSpec, heightCm: 201 }, 'heightCm must be between 5 and 200'],
+    [{ ...roundSpec, fabricType: 'silk' }, 'Fabric type must be one of: leather, faux-leather, velvet, linen, cotton, wool, boucle, outdoor, faux-fur'],
+    [{ ...roundSpec, fabricColour: '  ' }, 'Fabric colour is required and must be at most 50 characters'],
+    [{ ...roundSpec, fillingType: 'straw' }, 'Filling type must be one of: foam, memory-foam, polystyrene-beads, fibre, feather, mixed'],
+    [{ ...roundSpec, firmness: 'hard' }, 'Firmness must be one of: soft, medium, firm'],
+    [{ ...roundSpec, piping: 'yes' }, 'Piping must be true or false'],
+    [{ ...roundSpec, handles: 5 }, 'Handles must be a whole number between 0 and 4'],
+    [{ ...roundSpec, quantity: 0 }, 'Quantity must be a whole number between 1 and 1000']
+  ])('rejects %j', (spec, error) => {
+    expect(validateProductSpec(spec)).toBe(error);
+  });
+});
+
+describe('toSpecData', () => {
+  it('keeps only the dimensions of the shape and fills in defaults', () => {
+    expect(toSpecData({ ...roundSpec, widthCm: 10 } as Parameters<typeof toSpecData>[0])).toEqual({
+      shape: 'round',
+      diameterCm: 45.5,
+      widthCm: null,
+      depthCm: null,
+      heightCm: 40,
+      fabricType: 'velvet',
+      fabricColour: 'Emerald',
+      fillingType: 'polystyrene-beads',
+      firmness: 'soft',
+      piping: false,
+      handles: 0,
+      quantity: 1
+    });
+  });
+});
+
+describe('formatSpec', () => {
+  it('turns stored decimals into numbers', () => {
+    expect(formatSpec({ diameterCm: null, widthCm: decimal(50), depthCm: decimal(40.5), heightCm: decimal(42) })).toEqual({
+      diameterCm: null,
+      widthCm: 50,
+      depthCm: 40.5,
+      heightCm: 42
+    });
+    expect(formatSpec(null)).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+import { ProductStatus } from '@/lib/productLifecycle';
+
+export const SHAPES = ['round', 'square', 'cylinder'] as const;
+
+export const FABRIC_TYPES = [
+  'leather',
+  'faux-leather',
+  'velvet',
+  'linen',
+  'cotton',
+  'wool',
+  'boucle',
+  'outdoor',
+  'faux-fur'
+] as const;
+
+export const FILLING_TYPES = ['foam', 'memory-foam', 'polystyrene-beads', 'fibre', 'feather', 'mixed'] as const;
+
+export const FIRMNESS_LEVELS = ['soft', 'medium', 'firm'] as const;
+
+// Once a bid has been accepted the spec is what the upholsterer agreed to make
+export const SPEC_EDITABLE_STATUSES: ProductStatus[] = ['draft', 'open-for-bids'];
+
+export const productSpecSelect = {
+  shape: true,
+  diameterCm: true,
+  widthCm: true,
+  depthCm: true,
+  heightCm: true,
+  fabricType: true,
+  fabricColour: true,
+  fillingType: true,
+  firmness: true,
+  piping: true,
+  handles: true,
+  quantity: true,
+  updatedAt: true
+};
+
+export interface ProductSpecInput {
+  shape: typeof SHAPES[number];
+  diameterCm?: number | null;
+  widthCm?: number | null;
+  depthCm?: number | null;
+  heightCm: number;
+  fabricType: typeof FABRIC_TYPES[number];
+  fabricColour: string;
+  fillingType: typeof FILLING_TYPES[number];
+  firmness: typeof FIRMNESS_LEVELS[number];
+  piping?: boolean;
+  handles?: number;
+  quantity?: number;
+}
+
+type Dimension = { toNumber(): number } | null;
+
+interface ProductSpecRow {
+  diameterCm: Dimension;
+  widthCm: Dimension;
+  depthCm: Dimension;
+  heightCm: { toNumber(): number };
+}
+
+function isOneOf(values: readonly string[], value: unknown) {
+  return typeof value === 'string' && values.includes(value);
+}
+
+function isDimension(value: unknown, min: number, max: number) {
+  return typeof value === 'number' && value >= min && value <= max && Number(value.toFixed(1)) === value;
+}
+
+function isInteger(value: unknown, min: number, max: number) {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+/**
+ * Validates a product spec as sent on POST/PUT /api/products. Round and
+ * cylindrical poufs are measured by diameter, square ones by width and
+ * depth; all dimensions are in centimetres with at most one decimal.
+ * Returns an error message for the first invalid field, or null.
+ */
+export function validateProductSpec(spec: unknown): string | null {
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    return 'Spec must be an object';
+  }
+
+  const { shape, diameterCm, widthCm, depthCm, heightCm, fabricType, fabricColour, fillingType, firmness, piping, handles, quantity } = spec as Record<string, unknown>;
+
+  if (!isOneOf(SHAPES, shape)) {
+    return `Shape must be one of: ${SHAPES.join(', ')}`;
+  }
+  if (shape === 'square') {
+    if (!isDimension(widthCm, 10, 300) || !isDimension(depthCm, 10, 300)) {
+      return 'Square poufs need widthCm and depthCm between 10 and 300';
+    }
+    if (diameterCm != null) {
+      return 'Square poufs are measured by width and depth, not diameter';
+    }
+  } else {
+    if (!isDimension(diameterCm, 10, 300)) {
+      return `${shape === 'round' ? 'Round' : 'Cylindrical'} poufs need a diameterCm between 10 and 300`;
+    }
+    if (widthCm != null || depthCm != null) {
+      return `${shape === 'round' ? 'Round' : 'Cylindrical'} poufs are measured by diameter, not width and depth`;
+    }
+  }
+  if (!isDimension(heightCm, 5, 200)) {
+    return 'heightCm must be between 5 and 200';
+  }
+  if (!isOneOf(FABRIC_TYPES, fabricType)) {
+    return `Fabric type must be one of: ${FABRIC_TYPES.join(', ')}`;
+  }
+  if (typeof fabricColour !== 'string' || !fabricColour.trim() || fabricColour.length > 50) {
+    return 'Fabric colour is required and must be at most 50 characters';
+  }
+  if (!isOneOf(FILLING_TYPES, fillingType)) {
+    return `Filling type must be one of: ${FILLING_TYPES.join(', ')}`;
+  }
+  if (!isOneOf(FIRMNESS_LEVELS, firmness)) {
+    return `Firmness must be one of: ${FIRMNESS_LEVELS.join(', ')}`;
+  }
+  if (piping != null && typeof piping !== 'boolean') {
+    return 'Piping must be true or false';
+  }
+  if (handles != null && !isInteger(handles, 0, 4)) {
+    return 'Handles must be a whole number between 0 and 4';
+  }
+  if (quantity != null && !isInteger(quantity, 1, 1000)) {
+    return 'Quantity must be a whole number between 1 and 1000';
+  }
+
+  return null;
+}
+
+// Maps a validated spec onto the ProductSpecs columns
+export function toSpecData(spec: ProductSpecInput) {
+  const square = spec.shape === 'square';
+  return {
+    shape: spec.shape,
+    diameterCm: square ? null : spec.diameterCm ?? null,
+    widthCm: square ? spec.widthCm ?? null : null,
+    depthCm: square ? spec.depthCm ?? null : null,
+    heightCm: spec.heightCm,
+    fabricType: spec.fabricType,
+    fabricColour: spec.fabricColour.trim(),
+    fillingType: spec.fillingType,
+    firmness: spec.firmness,
+    piping: spec.piping ?? false,
+    handles: spec.handles ?? 0,
+    quantity: spec.quantity ?? 1
+  };
+}
+
+export function formatSpec<T extends ProductSpecRow>(spec: T | null) {
+  if (!spec) return null;
+  return {
+    ...spec,
+    diameterCm: spec.diameterCm ? spec.diameterCm.toNumber() : null,
+    widthCm: spec.widthCm ? spec.widthCm.toNumber() : null,
+    depthCm: spec.depthCm ? spec.depthCm.toNumber() : null,
+    heightCm: spec.heightCm.toNumber()
+  };
+}
@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+
+// Reverse proxies in front of the app; each appends the address it received the request from
+const TRUSTED_PROXY_COUNT = parseInt(process.env.TRUSTED_PROXY_COUNT || '1');
+
+/**
+ * The caller's address as seen by the outermost trusted proxy. Entries to the
+ * left of that one in X-Forwarded-For come from the client and can't be
+ * trusted, so with N proxies the address is the Nth entry from the right.
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor && TRUSTED_PROXY_COUNT > 0) {
+    const addresses = forwardedFor.split(',').map((address) => address.trim());
+    const address = addresses[Math.max(addresses.length - TRUSTED_PROXY_COUNT, 0)];
+    if (address) return address;
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+export function getUserAgent(request: NextRequest): string | undefined {
+  return request.headers.get('user-agent') || undefined;
+}
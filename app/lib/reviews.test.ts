@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRatingSummaries, ratingFor } from '@/lib/reviews';
+
+const { groupBy } = vi.hoisted(() => ({ groupBy: vi.fn() }));
+
+vi.mock('@/lib/prisma', () => ({ prisma: { upholstererReviews: { groupBy } } }));
+
+describe('getRatingSummaries', () => {
+  beforeEach(() => {
+    groupBy.mockReset();
+  });
+
+  it('groups the distinct upholsterers in one query and rounds averages', async () => {
+    groupBy.mockResolvedValue([
+      { upholstererId: 'u1', _avg: { rating: 4.666666 }, _count: { _all: 3 } },
+      { upholstererId: 'u2', _avg: { rating: 5 }, _count: { _all: 1 } }
+    ]);
+
+    const summaries = await getRatingSummaries(['u1', 'u2', 'u1', 'u3']);
+
+    expect(groupBy).toHaveBeenCalledTimes(1);
+    expect(groupBy.mock.calls[0][0].where).toEqual({ upholstererId: { in: ['u1', 'u2', 'u3'] } });
+    expect(ratingFor(summaries, 'u1')).toEqual({ average: 4.67, count: 3 });
+    expect(ratingFor(summaries, 'u2')).toEqual({ average: 5, count: 1 });
+  });
+
+  it('reports upholsterers without reviews as unrated', async () => {
+    groupBy.mockResolvedValue([]);
+
+    expect(ratingFor(await getRatingSummaries(['u3']), 'u3')).toEqual({ average: null, count: 0 });
+  });
+
+  it('skips the query when there is nobody to rate', async () => {
+    expect((await getRatingSummaries([])).size).toBe(0);
+    expect(groupBy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+import { prisma } from '@/lib/prisma';
+import { ProductStatus } from '@/lib/productLifecycle';
+
+// Products have to reach this status before their creator can leave a review
+export const REVIEWABLE_PRODUCT_STATUS: ProductStatus = 'completed';
+
+export interface RatingSummary {
+  average: number | null;
+  count: number;
+}
+
+const NO_RATINGS: RatingSummary = { average: null, count: 0 };
+
+/**
+ * Average rating and review count per upholsterer, fetched in one grouped
+ * query so bid listings don't issue a query per bid.
+ */
+export async function getRatingSummaries(upholstererIds: string[]): Promise<Map<string, RatingSummary>> {
+  const summaries = new Map<string, RatingSummary>();
+  const uniqueIds = Array.from(new Set(upholstererIds));
+
+  if (uniqueIds.length === 0) {
+    return summaries;
+  }
+
+  const groups = await prisma.upholstererReviews.groupBy({
+    by: ['upholstererId'],
+    where: { upholstererId: { in: uniqueIds } },
+    _avg: { rating: true },
+    _count: { _all: true }
+  });
+
+  for (const group of groups) {
+    summaries.set(group.upholstererId, {
+      average: group._avg.rating === null ? null : Math.round(group._avg.rating * 100) / 100,
+      count: group._count._all
+    });
+  }
+
+  return summaries;
+}
+
+export function ratingFor(summaries: Map<string, RatingSummary>, upholstererId: string): RatingSummary {
+  return summaries.get(upholstererId) ?? NO_RATINGS;
+}
@@ -0,0 +1,52 @@
+import { closeExpiredBidding, expireStaleBids } from '@/lib/bids';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+interface Job {
+  name: string;
+  run: (now: Date) => Promise<number>;
+}
+
+// Order matters: bids expire first so deadline closing sees what is still open
+const JOBS: Job[] = [
+  { name: 'expire-stale-bids', run: expireStaleBids },
+  { name: 'close-expired-bidding', run: closeExpiredBidding }
+];
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export async function runScheduledJobs(now: Date = new Date()) {
+  // A slow tick must not overlap with the next one
+  if (running) return;
+  running = true;
+  try {
+    for (const job of JOBS) {
+      try {
+        const affected = await job.run(now);
+        if (affected > 0) {
+          console.log(`Scheduler job ${job.name} updated ${affected} row(s)`);
+        }
+      } catch (error) {
+        console.error(`Error running scheduler job ${job.name}:`, error);
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Runs the in-process jobs on a fixed interval. Set SCHEDULER_DISABLED=true
+ * on every instance but one when running more than one server.
+ */
+export function startScheduler() {
+  if (timer || process.env.SCHEDULER_DISABLED === 'true') return;
+
+  const interval = parseInt(process.env.SCHEDULER_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS;
+  timer = setInterval(() => {
+    void runScheduledJobs();
+  }, interval);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+}
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { generateToken, verifyToken, hashToken, ACCESS_TOKEN_TTL_SECONDS } from '@/lib/auth';
+import { getClientIp, getUserAgent } from '@/lib/request';
+
+// A session lives as long as its refresh token family; each rotation extends it.
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const REFRESH_TOKEN_TTL_MS = SESSION_TTL_MS;
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export type RotationResult =
+  | ({ status: 'rotated' } & TokenPair)
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+export interface SessionPayload {
+  userId: string;
+  role: string;
+  sessionId: string;
+  twoFactorEnabled: boolean;
+}
+
+// Only a hash of the bearer token is stored, so a leaked UserSessions table
+// cannot be replayed against the API.
+export function hashSessionToken(token: string): string {
+  return hashToken(token);
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+/**
+ * Opens a new session for the user and returns its first access/refresh
+ * token pair. The session row doubles as the refresh token family.
+ */
+export async function createSession(userId: string, role: string, request: NextRequest): Promise<TokenPair> {
+  const token = generateToken(userId, role);
+  const refreshToken = generateRefreshToken();
+
+  await prisma.userSessions.create({
+    data: {
+      userId,
+      token: hashSessionToken(token),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      ipAddress: getClientIp(request),
+      userAgent: getUserAgent(request),
+      refreshTokens: {
+        create: {
+          tokenHash: hashSessionToken(refreshToken),
+          expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+        }
+      }
+    }
+  });
+
+  return { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+/**
+ * Exchanges a refresh token for a new token pair. Each refresh token is
+ * single-use: presenting one that was already used revokes the whole family.
+ */
+export async function rotateRefreshToken(refreshToken: string): Promise<RotationResult> {
+  const stored = await prisma.refreshTokens.findUnique({
+    where: { tokenHash: hashSessionToken(refreshToken) },
+    include: {
+      session: {
+        select: {
+          Id: true,
+          user: { select: { Id: true, role: true } }
+        }
+      }
+    }
+  });
+
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+
+  if (stored.usedAt) {
+    await revokeFamily(stored.sessionId);
+    return { status: 'reused' };
+  }
+
+  if (stored.expiresAt <= new Date()) {
+    return { status: 'invalid' };
+  }
+
+  const token = generateToken(stored.session.user.Id, stored.session.user.role);
+  const nextRefreshToken = generateRefreshToken();
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const { count } = await tx.refreshTokens.updateMany({
+      where: { Id: stored.Id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+    if (count === 0) return false;
+
+    await tx.userSessions.update({
+      where: { Id: stored.sessionId },
+      data: {
+        token: hashSessionToken(token),
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+      }
+    });
+
+    await tx.refreshTokens.create({
+      data: {
+        sessionId: stored.sessionId,
+        tokenHash: hashSessionToken(nextRefreshToken),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+      }
+    });
+
+    return true;
+  });
+
+  if (!claimed) {
+    await revokeFamily(stored.sessionId);
+    return { status: 'reused' };
+  }
+
+  return { status: 'rotated', token, refreshToken: nextRefreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+// Deleting the session cascades to every refresh token issued for it.
+async function revokeFamily(sessionId: string) {
+  await prisma.userSessions.deleteMany({ where: { Id: sessionId } });
+}
+
+/**
+ * Verifies the JWT signature and that its UserSessions row still exists and
+ * has not expired. Revoking the row invalidates the token immediately.
+ */
+export async function verifySession(token: string): Promise<SessionPayload | null> {
+  const payload = verifyToken(token);
+  if (!payload) return null;
+
+  const session = await prisma.userSessions.findUnique({
+    where: { token: hashSessionToken(token) },
+    select: {
+      Id: true,
+      userId: true,
+      expiresAt: true,
+      user: { select: { totpEnabled: true } }
+    }
+  });
+
+  if (!session || session.userId !== payload.userId) {
+    return null;
+  }
+
+  if (session.expiresAt <= new Date()) {
+    await prisma.userSessions.delete({ where: { Id: session.Id } }).catch(() => undefined);
+    return null;
+  }
+
+  return {
+    userId: payload.userId,
+    role: payload.role,
+    sessionId: session.Id,
+    twoFactorEnabled: session.user.totpEnabled
+  };
+}
+
+export async function revokeSession(sessionId: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.userSessions.deleteMany({
+    where: { Id: sessionId, userId }
+  });
+  return count > 0;
+}
+
+export async function revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const { count } = await prisma.userSessions.deleteMany({
+    where: {
+      userId,
+      ...(exceptSessionId ? { Id: { not: exceptSessionId } } : {})
+    }
+  });
+  return count;
+}
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import path from 'path';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+
+/**
+ * Where uploaded files live. Keys are relative paths such as
+ * `products/<id>/<image>/medium.webp`; put() returns the public URL.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Writes files to disk, by default under public/uploads so Next serves them
+ * directly. Set STORAGE_LOCAL_DIR and STORAGE_PUBLIC_URL to serve them from
+ * elsewhere.
+ */
+export class LocalStorage implements StorageBackend {
+  readonly name = 'local';
+
+  constructor(
+    private readonly root: string = process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'public', 'uploads'),
+    private readonly publicUrl: string = process.env.STORAGE_PUBLIC_URL || '/uploads'
+  ) {}
+
+  async put(key: string, body: Buffer) {
+    const target = this.resolve(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, body);
+    return `${this.publicUrl.replace(/\/$/, '')}/${key}`;
+  }
+
+  async delete(key: string) {
+    await unlink(this.resolve(key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+
+  private resolve(key: string) {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`);
+    }
+    return target;
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl: string;
+}
+
+function sha256(value: string | Buffer) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string) {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * Any S3-compatible object store (AWS, MinIO, R2, ...), addressed path-style
+ * and signed with AWS Signature Version 4 so no SDK is needed.
+ */
+export class S3Storage implements StorageBackend {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3Config) {}
+
+  static fromEnv(): S3Storage {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_PUBLIC_URL } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    const region = S3_REGION || 'us-east-1';
+    const endpoint = (S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, '');
+    return new S3Storage({
+      endpoint,
+      region,
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      publicUrl: (S3_PUBLIC_URL || `${endpoint}/${S3_BUCKET}`).replace(/\/$/, '')
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.send('PUT', key, body, { 'content-type': contentType });
+    return `${this.config.publicUrl}/${key}`;
+  }
+
+  async delete(key: string) {
+    await this.send('DELETE', key, Buffer.alloc(0), {});
+  }
+
+  private async send(method: string, key: string, body: Buffer, extraHeaders: Record<string, string>) {
+    const url = new URL(`${this.config.endpoint}/${this.config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body);
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map((name) => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+      },
+      body: method === 'PUT' ? new Uint8Array(body) : undefined
+    });
+
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      throw new Error(`S3 ${method} ${key} failed with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+let storage: StorageBackend | null = null;
+
+// STORAGE_BACKEND=s3 switches to object storage; the local disk is the default
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    storage = process.env.STORAGE_BACKEND === 's3' ? S3Storage.fromEnv() : new LocalStorage();
+  }
+  return storage;
+}
+
+export function setStorage(next: StorageBackend) {
+  storage = next;
+}
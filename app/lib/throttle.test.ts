@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  checkThrottle,
+  MemoryThrottleStore,
+  recordFailure,
+  releaseAttempt,
+  reserveAttempt,
+  resetThrottle,
+  setThrottleStore,
+  ThrottlePolicy,
+  unlockThrottle
+} from '@/lib/throttle';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const MINUTE = 60 * 1000;
+
+const policy: ThrottlePolicy = {
+  backoffAfter: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 10 * 1000,
+  lockoutAfter: 4,
+  lockoutMs: 15 * MINUTE,
+  windowMs: 60 * MINUTE
+};
+
+describe('MemoryThrottleStore', () => {
+  const start = new Date('2026-01-01T00:00:00Z');
+  const at = (ms: number) => new Date(start.getTime() + ms);
+  const windowStart = (now: Date) => new Date(now.getTime() - policy.windowMs);
+
+  it('counts failures within the window', async () => {
+    const store = new MemoryThrottleStore();
+    await store.increment('key', at(0), windowStart(at(0)));
+    const record = await store.increment('key', at(MINUTE), windowStart(at(MINUTE)));
+
+    expect(record).toEqual({ failures: 2, lastFailureAt: at(MINUTE), lockedUntil: null });
+  });
+
+  it('starts over once the window has passed', async () => {
+    const store = new MemoryThrottleStore();
+    await store.increment('key', at(0), windowStart(at(0)));
+    await store.increment('key', at(0), windowStart(at(0)));
+    const later = at(61 * MINUTE);
+
+    expect((await store.increment('key', later, windowStart(later))).failures).toBe(1);
+  });
+
+  it('keeps counting while locked and starts over once the lockout expires', async () => {
+    const store = new MemoryThrottleStore();
+    await store.increment('key', at(0), windowStart(at(0)));
+    await store.lock('key', at(0), at(15 * MINUTE));
+
+    expect((await store.increment('key', at(MINUTE), windowStart(at(MINUTE)))).failures).toBe(2);
+    expect(await store.increment('key', at(16 * MINUTE), windowStart(at(16 * MINUTE)))).toEqual({
+      failures: 1,
+      lastFailureAt: at(16 * MINUTE),
+      lockedUntil: null
+    });
+  });
+
+  it('locks a key only once per lockout', async () => {
+    const store = new MemoryThrottleStore();
+    await store.increment('key', at(0), windowStart(at(0)));
+
+    expect(await store.lock('key', at(0), at(15 * MINUTE))).toBe(true);
+    expect(await store.lock('key', at(MINUTE), at(16 * MINUTE))).toBe(false);
+    expect(await store.lock('key', at(20 * MINUTE), at(35 * MINUTE))).toBe(true);
+    expect(await store.lock('missing', at(0), at(15 * MINUTE))).toBe(false);
+  });
+
+  it('never decrements below zero', async () => {
+    const store = new MemoryThrottleStore();
+    await store.increment('key', at(0), windowStart(at(0)));
+    await store.decrement('key');
+    await store.decrement('key');
+
+    expect((await store.get('key'))?.failures).toBe(0);
+  });
+
+  it('unlocks only the lockout it is given, once', async () => {
+    const store = new MemoryThrottleStore();
+    await store.increment('key', at(0), windowStart(at(0)));
+    await store.lock('key', at(0), at(15 * MINUTE));
+
+    expect(await store.unlock('key', at(14 * MINUTE))).toBe(false);
+    expect(await store.unlock('key', at(15 * MINUTE))).toBe(true);
+    expect(await store.unlock('key', at(15 * MINUTE))).toBe(false);
+    expect(await store.get('key')).toBeNull();
+  });
+});
+
+describe('throttling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    setThrottleStore(new MemoryThrottleStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially after the allowed failures', async () => {
+    await recordFailure('key', policy);
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: true });
+
+    await recordFailure('key', policy);
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: false, locked: false, retryAfterMs: 1000 });
+
+    await recordFailure('key', policy);
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: false, locked: false, retryAfterMs: 2000 });
+
+    vi.advanceTimersByTime(2000);
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: true });
+  });
+
+  it('reports the failure that locks the key exactly once', async () => {
+    const locked = [];
+    for (let i = 0; i < 5; i++) {
+      locked.push(await recordFailure('key', policy));
+    }
+
+    expect(locked).toEqual([false, false, false, true, false]);
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: false, locked: true, retryAfterMs: 15 * MINUTE });
+  });
+
+  it('forgets old failures once a lockout expires', async () => {
+    for (let i = 0; i < 4; i++) {
+      await recordFailure('key', policy);
+    }
+    vi.advanceTimersByTime(15 * MINUTE);
+
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: true });
+    expect(await recordFailure('key', policy)).toBe(false);
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: true });
+  });
+
+  it('refuses parallel attempts past the lockout threshold', async () => {
+    const relaxed = { ...policy, backoffAfter: 10 };
+    const attempts = await Promise.all(Array.from({ length: 6 }, () => reserveAttempt('key', relaxed)));
+
+    expect(attempts.filter((attempt) => attempt.allowed)).toHaveLength(4);
+    expect(attempts.filter((attempt) => attempt.allowed && attempt.lockedUntil)).toHaveLength(1);
+    expect(attempts.filter((attempt) => !attempt.allowed && attempt.locked)).toHaveLength(2);
+  });
+
+  it('gives back attempts that succeed', async () => {
+    await reserveAttempt('key', policy);
+    await reserveAttempt('key', policy);
+    expect((await checkThrottle('key', policy)).allowed).toBe(false);
+
+    await releaseAttempt('key');
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: true });
+  });
+
+  it('lifts a lockout with its unlock link only once', async () => {
+    let lockedUntil: Date | null = null;
+    for (let i = 0; i < 4; i++) {
+      vi.advanceTimersByTime(10 * 1000);
+      const attempt = await reserveAttempt('key', policy);
+      if (attempt.allowed && attempt.lockedUntil) lockedUntil = attempt.lockedUntil;
+    }
+
+    expect(lockedUntil).not.toBeNull();
+    expect(await unlockThrottle('key', lockedUntil as Date)).toBe(true);
+    expect(await unlockThrottle('key', lockedUntil as Date)).toBe(false);
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: true });
+  });
+
+  it('clears everything on reset', async () => {
+    for (let i = 0; i < 4; i++) {
+      await recordFailure('key', policy);
+    }
+    await resetThrottle('key');
+
+    expect(await checkThrottle('key', policy)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,298 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export interface ThrottleRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Backing storage for failure counters. The database store is the default;
+ * the in-memory store is meant for tests and single-process development.
+ * Counters are changed with increment and lock so that concurrent failures
+ * are all counted and a key is locked exactly once.
+ */
+export interface ThrottleStore {
+  get(key: string): Promise<ThrottleRecord | null>;
+  // Adds a failure; a missing record, one idle since before windowStart or one whose lockout has expired starts over
+  increment(key: string, now: Date, windowStart: Date): Promise<ThrottleRecord>;
+  // Locks the key until the given time unless it is already locked; returns whether this call locked it
+  lock(key: string, now: Date, until: Date): Promise<boolean>;
+  // Takes back one counted failure
+  decrement(key: string): Promise<void>;
+  // Deletes the record only if it is still under the given lockout; returns whether it did
+  unlock(key: string, lockedUntil: Date): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+function isCurrent(record: ThrottleRecord, now: Date, windowStart: Date) {
+  return record.lockedUntil ? record.lockedUntil > now : record.lastFailureAt >= windowStart;
+}
+
+export class MemoryThrottleStore implements ThrottleStore {
+  private records = new Map<string, ThrottleRecord>();
+
+  async get(key: string) {
+    return this.records.get(key) ?? null;
+  }
+
+  async increment(key: string, now: Date, windowStart: Date) {
+    const existing = this.records.get(key);
+    const record = existing && isCurrent(existing, now, windowStart)
+      ? { ...existing, failures: existing.failures + 1, lastFailureAt: now }
+      : { failures: 1, lastFailureAt: now, lockedUntil: null };
+    this.records.set(key, record);
+    return { ...record };
+  }
+
+  async lock(key: string, now: Date, until: Date) {
+    const record = this.records.get(key);
+    if (!record || (record.lockedUntil && record.lockedUntil > now)) return false;
+    this.records.set(key, { ...record, lockedUntil: until });
+    return true;
+  }
+
+  async decrement(key: string) {
+    const record = this.records.get(key);
+    if (record && record.failures > 0) {
+      this.records.set(key, { ...record, failures: record.failures - 1 });
+    }
+  }
+
+  async unlock(key: string, lockedUntil: Date) {
+    const record = this.records.get(key);
+    if (!record?.lockedUntil || record.lockedUntil.getTime() !== lockedUntil.getTime()) return false;
+    this.records.delete(key);
+    return true;
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+export class PrismaThrottleStore implements ThrottleStore {
+  async get(key: string) {
+    const row = await prisma.throttles.findUnique({ where: { key } });
+    return row ? { failures: row.failures, lastFailureAt: row.lastFailureAt, lockedUntil: row.lockedUntil } : null;
+  }
+
+  async increment(key: string, now: Date, windowStart: Date): Promise<ThrottleRecord> {
+    const incremented = await prisma.throttles.updateMany({
+      where: { key, OR: [{ lockedUntil: { gt: now } }, { lockedUntil: null, lastFailureAt: { gte: windowStart } }] },
+      data: { failures: { increment: 1 }, lastFailureAt: now }
+    });
+
+    if (incremented.count === 0) {
+      const restarted = await prisma.throttles.updateMany({
+        where: { key, OR: [{ lockedUntil: { lte: now } }, { lockedUntil: null, lastFailureAt: { lt: windowStart } }] },
+        data: { failures: 1, lastFailureAt: now, lockedUntil: null }
+      });
+
+      if (restarted.count === 0) {
+        try {
+          await prisma.throttles.create({ data: { key, failures: 1, lastFailureAt: now } });
+        } catch (error) {
+          // A concurrent failure created or restarted the record first; count against that one
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return this.increment(key, now, windowStart);
+          }
+          throw error;
+        }
+      }
+    }
+
+    return (await this.get(key)) as ThrottleRecord;
+  }
+
+  async lock(key: string, now: Date, until: Date) {
+    const { count } = await prisma.throttles.updateMany({
+      where: { key, OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+      data: { lockedUntil: until }
+    });
+    return count > 0;
+  }
+
+  async decrement(key: string) {
+    await prisma.throttles.updateMany({
+      where: { key, failures: { gt: 0 } },
+      data: { failures: { decrement: 1 } }
+    });
+  }
+
+  async unlock(key: string, lockedUntil: Date) {
+    const { count } = await prisma.throttles.deleteMany({ where: { key, lockedUntil } });
+    return count > 0;
+  }
+
+  async delete(key: string) {
+    await prisma.throttles.deleteMany({ where: { key } });
+  }
+}
+
+let store: ThrottleStore = process.env.THROTTLE_STORE === 'memory'
+  ? new MemoryThrottleStore()
+  : new PrismaThrottleStore();
+
+export function getThrottleStore(): ThrottleStore {
+  return store;
+}
+
+export function setThrottleStore(next: ThrottleStore) {
+  store = next;
+}
+
+export interface ThrottlePolicy {
+  // Failures allowed before exponential backoff kicks in
+  backoffAfter: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Failures before a hard lockout; omit to only back off
+  lockoutAfter?: number;
+  lockoutMs: number;
+  // Counters reset once no failure has been seen for this long
+  windowMs: number;
+}
+
+export type ThrottleStatus =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterMs: number };
+
+export const ACCOUNT_LOGIN_POLICY: ThrottlePolicy = {
+  backoffAfter: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAfter: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5'),
+  lockoutMs: 15 * 60 * 1000,
+  windowMs: 60 * 60 * 1000
+};
+
+export const IP_LOGIN_POLICY: ThrottlePolicy = {
+  backoffAfter: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  lockoutMs: 0,
+  windowMs: 60 * 60 * 1000
+};
+
+// Counters start over after windowMs without failures, or as soon as a lockout expires
+function isStale(record: ThrottleRecord, policy: ThrottlePolicy, now: number) {
+  return !isCurrent(record, new Date(now), new Date(now - policy.windowMs));
+}
+
+export async function checkThrottle(key: string, policy: ThrottlePolicy): Promise<ThrottleStatus> {
+  const record = await store.get(key);
+  const now = Date.now();
+  if (!record || isStale(record, policy, now)) {
+    return { allowed: true };
+  }
+
+  if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+    return { allowed: false, locked: true, retryAfterMs: record.lockedUntil.getTime() - now };
+  }
+
+  if (record.failures >= policy.backoffAfter) {
+    const delay = Math.min(
+      policy.baseDelayMs * 2 ** (record.failures - policy.backoffAfter),
+      policy.maxDelayMs
+    );
+    const retryAt = record.lastFailureAt.getTime() + delay;
+    if (retryAt > now) {
+      return { allowed: false, locked: false, retryAfterMs: retryAt - now };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Counts a failure against the key. Returns true when this failure is the one
+ * that locked the key, so callers can send a notification exactly once.
+ */
+export async function recordFailure(key: string, policy: ThrottlePolicy): Promise<boolean> {
+  const now = new Date();
+  const record = await store.increment(key, now, new Date(now.getTime() - policy.windowMs));
+
+  if (policy.lockoutAfter === undefined || record.failures < policy.lockoutAfter) {
+    return false;
+  }
+  return store.lock(key, now, new Date(now.getTime() + policy.lockoutMs));
+}
+
+export type AttemptStatus =
+  | { allowed: true; lockedUntil: Date | null }
+  | { allowed: false; locked: boolean; retryAfterMs: number };
+
+/**
+ * Counts an attempt as a failure before it is verified, so parallel guesses
+ * can't all pass the check ahead of the failures being recorded. The attempt
+ * that reaches the lockout threshold locks the key and gets the lockout's end
+ * back in lockedUntil; attempts that raced past the threshold are refused.
+ * Callers reset or release the key when the attempt turns out to succeed.
+ */
+export async function reserveAttempt(key: string, policy: ThrottlePolicy): Promise<AttemptStatus> {
+  const status = await checkThrottle(key, policy);
+  if (!status.allowed) {
+    return status;
+  }
+
+  const now = new Date();
+  const record = await store.increment(key, now, new Date(now.getTime() - policy.windowMs));
+  if (policy.lockoutAfter === undefined || record.failures < policy.lockoutAfter) {
+    return { allowed: true, lockedUntil: null };
+  }
+
+  const lockedUntil = new Date(now.getTime() + policy.lockoutMs);
+  const lockedNow = await store.lock(key, now, lockedUntil);
+  if (record.failures > policy.lockoutAfter) {
+    return { allowed: false, locked: true, retryAfterMs: policy.lockoutMs };
+  }
+  return { allowed: true, lockedUntil: lockedNow ? lockedUntil : null };
+}
+
+// Takes back an attempt reserved with reserveAttempt that didn't fail
+export async function releaseAttempt(key: string) {
+  await store.decrement(key);
+}
+
+export async function resetThrottle(key: string) {
+  await store.delete(key);
+}
+
+/**
+ * Lifts a lockout on behalf of an unlock link. The link names the lockout it
+ * was issued for, so it works once and not for any later lockout.
+ */
+export async function unlockThrottle(key: string, lockedUntil: Date): Promise<boolean> {
+  return store.unlock(key, lockedUntil);
+}
+
+// Every verification email counts as an attempt, so repeat sends back off
+export const RESEND_VERIFICATION_POLICY: ThrottlePolicy = {
+  backoffAfter: 1,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  lockoutMs: 0,
+  windowMs: 24 * 60 * 60 * 1000
+};
+
+// Shared addresses (offices, NAT) get a few sends before backing off
+export const RESEND_VERIFICATION_IP_POLICY: ThrottlePolicy = {
+  ...RESEND_VERIFICATION_POLICY,
+  backoffAfter: 5
+};
+
+export const UNLOCK_TOKEN_PURPOSE = 'account-unlock';
+
+export function accountLoginKey(email: string) {
+  return `login:account:${email.trim().toLowerCase()}`;
+}
+
+export function ipLoginKey(ipAddress: string) {
+  return `login:ip:${ipAddress}`;
+}
+
+export function resendVerificationKey(value: string) {
+  return `verify:resend:${value.trim().toLowerCase()}`;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, buildOtpAuthUri, currentTimeStep, generateHotp, generateTotpSecret, verifyTotp } from '@/lib/totp';
+
+// The shared secret from the RFC 4226 and RFC 6238 test vectors
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('encodes the RFC secret', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('round-trips arbitrary bytes', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 255, 17, 99]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('ignores case, spaces and padding when decoding', () => {
+    expect(base32Decode('gezd gnbv====').toString()).toBe('12345');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character: 1');
+  });
+
+  it('generates 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe('generateHotp', () => {
+  it('matches the RFC 4226 test vectors', () => {
+    const codes = Array.from({ length: 10 }, (_, counter) => generateHotp(RFC_SECRET, counter));
+    expect(codes).toEqual([
+      '755224', '287082', '359152', '969429', '338314',
+      '254676', '287922', '162583', '399871', '520489'
+    ]);
+  });
+});
+
+describe('verifyTotp', () => {
+  // RFC 6238 SHA-1 vectors, truncated to six digits
+  const vectors: [number, string][] = [
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037']
+  ];
+
+  it.each(vectors)('accepts the code for %i seconds', (seconds, code) => {
+    expect(verifyTotp(RFC_SECRET, code, seconds * 1000)).toBe(currentTimeStep(seconds * 1000));
+  });
+
+  it('allows one step of clock drift either way', () => {
+    const now = 1234567890 * 1000;
+    const step = currentTimeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step + 2), now)).toBeNull();
+  });
+
+  it('accepts codes typed with spaces', () => {
+    expect(verifyTotp(RFC_SECRET, '005 924', 1234567890 * 1000)).not.toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '00592', 1234567890 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '0059244', 1234567890 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', 1234567890 * 1000)).toBeNull();
+  });
+});
+
+describe('buildOtpAuthUri', () => {
+  it('describes the secret for authenticator apps', () => {
+    expect(buildOtpAuthUri('ABC', 'ana@example.com')).toBe(
+      'otpauth://totp/Poufmaker%3Aana%40example.com?secret=ABC&issuer=Poufmaker&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
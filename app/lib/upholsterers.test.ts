@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { formatProfile, parseSpecialties, serializeSpecialties, validateProfileInput, withProfileSummary } from '@/lib/upholsterers';
+
+const decimal = (value: number) => ({ toNumber: () => value });
+
+describe('specialties', () => {
+  it('round-trip through the comma-separated column without duplicates', () => {
+    expect(serializeSpecialties(['leather', 'velvet', 'leather'])).toBe('leather,velvet');
+    expect(parseSpecialties('leather,velvet')).toEqual(['leather', 'velvet']);
+    expect(parseSpecialties('')).toEqual([]);
+  });
+});
+
+describe('withProfileSummary', () => {
+  it('renames the relation and expands specialties', () => {
+    const summary = { workshopLocation: 'Leeds', serviceRadiusKm: 50, specialties: 'wool', leadTimeDays: 14 };
+
+    expect(withProfileSummary({ Id: 'u1', upholstererProfile: summary })).toEqual({
+      Id: 'u1',
+      profile: { ...summary, specialties: ['wool'] }
+    });
+    expect(withProfileSummary({ Id: 'u2', upholstererProfile: null })).toEqual({ Id: 'u2', profile: null });
+  });
+});
+
+describe('formatProfile', () => {
+  it('turns decimals into numbers', () => {
+    expect(formatProfile({ specialties: 'boucle', latitude: decimal(53.8), longitude: null })).toEqual({
+      specialties: ['boucle'],
+      latitude: 53.8,
+      longitude: null
+    });
+  });
+});
+
+describe('validateProfileInput', () => {
+  it('accepts a complete profile', () => {
+    expect(validateProfileInput({
+      bio: 'Third-generation upholsterer',
+      workshopLocation: 'Leeds',
+      latitude: 53.8,
+      longitude: -1.55,
+      serviceRadiusKm: 50,
+      specialties: ['leather', 'restoration'],
+      leadTimeDays: 14,
+      portfolioImages: [{ imageUrl: 'https://example.com/a.jpg', caption: 'Chesterfield pouf' }]
+    })).toBeNull();
+  });
+
+  it('accepts an empty update', () => {
+    expect(validateProfileInput({})).toBeNull();
+  });
+
+  it.each([
+    [null, 'Profile must be an object'],
+    [[], 'Profile must be an object'],
+    [{ bio: 'x'.repeat(5001) }, 'Bio must be at most 5000 characters'],
+    [{ workshopLocation: 42 }, 'Workshop location must be at most 255 characters'],
+    [{ latitude: 91 }, 'Latitude must be between -90 and 90'],
+    [{ longitude: '0' }, 'Longitude must be between -180 and 180'],
+    [{ serviceRadiusKm: 2.5 }, 'Service radius must be a whole number of kilometres between 0 and 1000'],
+    [{ leadTimeDays: 366 }, 'Lead time must be a whole number of days between 0 and 365'],
+    [{ specialties: ['knitting'] }, 'Specialties must be a list drawn from: leather, velvet, outdoor, linen, boucle, wool, faux-fur, restoration'],
+    [{ portfolioImages: 'a.jpg' }, 'Portfolio images must be a list of at most 20 items'],
+    [{ portfolioImages: [{ imageUrl: 'ftp://example.com/a.jpg' }] }, 'Each portfolio image needs an http(s) imageUrl of at most 500 characters'],
+    [{ portfolioImages: [{ imageUrl: 'https://example.com/a.jpg', caption: 'x'.repeat(256) }] }, 'Portfolio image captions must be at most 255 characters']
+  ])('rejects %j', (input, error) => {
+    expect(validateProfileInput(input)).toBe(error);
+  });
+});
@@ -0,0 +1,145 @@
+export const SPECIALTIES = [
+  'leather',
+  'velvet',
+  'outdoor',
+  'linen',
+  'boucle',
+  'wool',
+  'faux-fur',
+  'restoration'
+] as const;
+
+export const MAX_PORTFOLIO_IMAGES = 20;
+
+// Specialties live in a single comma-separated column
+export function parseSpecialties(value: string): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+export function serializeSpecialties(values: string[]): string {
+  return Array.from(new Set(values)).join(',');
+}
+
+export const profileSummarySelect = {
+  workshopLocation: true,
+  serviceRadiusKm: true,
+  specialties: true,
+  leadTimeDays: true
+};
+
+interface ProfileSummaryRow {
+  workshopLocation: string | null;
+  serviceRadiusKm: number | null;
+  specialties: string;
+  leadTimeDays: number | null;
+}
+
+/**
+ * Renames the Prisma relation to `profile` and expands the specialties
+ * column so API consumers always see an array.
+ */
+export function withProfileSummary<T extends { upholstererProfile: ProfileSummaryRow | null }>(upholsterer: T) {
+  const { upholstererProfile, ...rest } = upholsterer;
+  return {
+    ...rest,
+    profile: upholstererProfile
+      ? { ...upholstererProfile, specialties: parseSpecialties(upholstererProfile.specialties) }
+      : null
+  };
+}
+
+export const profileInclude = {
+  portfolioImages: {
+    select: { Id: true, imageUrl: true, caption: true, sortOrder: true },
+    orderBy: { sortOrder: 'asc' as const }
+  }
+};
+
+interface ProfileRow {
+  specialties: string;
+  latitude: { toNumber(): number } | null;
+  longitude: { toNumber(): number } | null;
+}
+
+export function formatProfile<T extends ProfileRow>(profile: T) {
+  return {
+    ...profile,
+    specialties: parseSpecialties(profile.specialties),
+    latitude: profile.latitude ? profile.latitude.toNumber() : null,
+    longitude: profile.longitude ? profile.longitude.toNumber() : null
+  };
+}
+
+export interface PortfolioImageInput {
+  imageUrl: string;
+  caption?: string | null;
+}
+
+function isInteger(value: unknown, min: number, max: number) {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function isNumberInRange(value: unknown, min: number, max: number) {
+  return typeof value === 'number' && value >= min && value <= max;
+}
+
+function isHttpUrl(value: unknown) {
+  if (typeof value !== 'string' || value.length > 500) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the body of PUT /api/upholsterers/me/profile. Returns an error
+ * message for the first invalid field, or null when the input is usable.
+ */
+export function validateProfileInput(body: unknown): string | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Profile must be an object';
+  }
+
+  const { bio, workshopLocation, latitude, longitude, serviceRadiusKm, specialties, leadTimeDays, portfolioImages } = body as Record<string, unknown>;
+
+  if (bio != null && (typeof bio !== 'string' || bio.length > 5000)) {
+    return 'Bio must be at most 5000 characters';
+  }
+  if (workshopLocation != null && (typeof workshopLocation !== 'string' || workshopLocation.length > 255)) {
+    return 'Workshop location must be at most 255 characters';
+  }
+  if (latitude != null && !isNumberInRange(latitude, -90, 90)) {
+    return 'Latitude must be between -90 and 90';
+  }
+  if (longitude != null && !isNumberInRange(longitude, -180, 180)) {
+    return 'Longitude must be between -180 and 180';
+  }
+  if (serviceRadiusKm != null && !isInteger(serviceRadiusKm, 0, 1000)) {
+    return 'Service radius must be a whole number of kilometres between 0 and 1000';
+  }
+  if (leadTimeDays != null && !isInteger(leadTimeDays, 0, 365)) {
+    return 'Lead time must be a whole number of days between 0 and 365';
+  }
+  if (specialties != null) {
+    if (!Array.isArray(specialties) || specialties.some((value) => !SPECIALTIES.includes(value))) {
+      return `Specialties must be a list drawn from: ${SPECIALTIES.join(', ')}`;
+    }
+  }
+  if (portfolioImages != null) {
+    if (!Array.isArray(portfolioImages) || portfolioImages.length > MAX_PORTFOLIO_IMAGES) {
+      return `Portfolio images must be a list of at most ${MAX_PORTFOLIO_IMAGES} items`;
+    }
+    for (const image of portfolioImages as PortfolioImageInput[]) {
+      if (!image || !isHttpUrl(image.imageUrl)) {
+        return 'Each portfolio image needs an http(s) imageUrl of at most 500 characters';
+      }
+      if (image.caption != null && (typeof image.caption !== 'string' || image.caption.length > 255)) {
+        return 'Portfolio image captions must be at most 255 characters';
+      }
+    }
+  }
+
+  return null;
+}
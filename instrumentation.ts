@@ -0,0 +1,7 @@
+export async function register() {
+  // Background jobs need Prisma, which only runs on the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('@/lib/scheduler');
+    startScheduler();
+  }
+}
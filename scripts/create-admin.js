@@ -0,0 +1,59 @@
+// Bootstrap CLI for the first administrator account.
+// Usage: npm run create-admin -- <email> "<full name>"
+const crypto = require('crypto');
+const { PrismaClient } = require('@prisma/client');
+
+const RESET_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function main() {
+  const [email, fullName] = process.argv.slice(2);
+  if (!email || !fullName) {
+    console.error('Usage: npm run create-admin -- <email> "<full name>"');
+    process.exit(1);
+  }
+
+  const prisma = new PrismaClient();
+  try {
+    // Same format as issuePasswordResetToken in app/lib/accounts.ts
+    const resetToken = crypto.randomBytes(32).toString('base64url');
+    const resetData = {
+      resetPasswordTokenHash: crypto.createHash('sha256').update(resetToken).digest('hex'),
+      resetPasswordExpiry: new Date(Date.now() + RESET_TTL_MS)
+    };
+
+    const existing = await prisma.users.findUnique({ where: { email }, select: { Id: true } });
+
+    if (existing) {
+      await prisma.users.update({
+        where: { Id: existing.Id },
+        data: { role: 'admin', updatedAt: new Date() }
+      });
+      console.log(`Promoted existing user ${email} to admin.`);
+      return;
+    }
+
+    // Random credentials nobody knows; the admin sets a real password via the reset link
+    await prisma.users.create({
+      data: {
+        email,
+        fullName,
+        passwordHash: crypto.randomBytes(64).toString('hex'),
+        passwordSalt: crypto.randomBytes(16).toString('hex'),
+        role: 'admin',
+        emailConfirmed: true,
+        ...resetData
+      }
+    });
+
+    console.log(`Created admin ${email}.`);
+    console.log('Set a password within 24 hours at:');
+    console.log(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/reset-password?token=${resetToken}`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to create admin:', error);
+  process.exit(1);
+});
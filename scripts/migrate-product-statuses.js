@@ -0,0 +1,48 @@
+// One-off migration of Products.Status values from before the lifecycle was enforced.
+// Usage: npm run migrate-product-statuses
+const { PrismaClient } = require('@prisma/client');
+
+// Old free-form values and their place in the lifecycle (see app/lib/productLifecycle.ts)
+const LEGACY_STATUSES = {
+  'ai-generated': 'open-for-bids',
+  'pending': 'open-for-bids',
+  'in-progress': 'in-production'
+};
+
+async function main() {
+  const prisma = new PrismaClient();
+  try {
+    for (const [from, to] of Object.entries(LEGACY_STATUSES)) {
+      const products = await prisma.products.findMany({
+        where: { status: from },
+        select: { Id: true }
+      });
+
+      for (const product of products) {
+        await prisma.$transaction([
+          prisma.products.update({
+            where: { Id: product.Id },
+            data: { status: to }
+          }),
+          prisma.productStatusHistory.create({
+            data: {
+              productId: product.Id,
+              fromStatus: from,
+              toStatus: to,
+              note: 'Migrated from legacy status'
+            }
+          })
+        ]);
+      }
+
+      console.log(`${from} -> ${to}: ${products.length} product(s)`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to migrate product statuses:', error);
+  process.exit(1);
+});